@@ -0,0 +1,32 @@
+import { defineDeployTargets } from './plugins/deployTarget';
+
+/**
+ * Deployment targets of the application. The target is selected by the DEPLOY_TARGET environment
+ * variable, for example `DEPLOY_TARGET=staging npm run build`. The dev server uses "local" and the
+ * build uses "github-pages" by default. Replace the example origins and Mini App links with the ones
+ * of your application.
+ */
+export default defineDeployTargets({
+  'local': {
+    base: '/',
+    appName: 'Telegram Mini App (local)',
+  },
+  'staging': {
+    base: '/',
+    origin: 'https://staging.example.com',
+    appName: 'Telegram Mini App (staging)',
+    miniAppUrl: 'https://t.me/my_staging_bot/my_app',
+  },
+  'production': {
+    base: '/',
+    origin: 'https://example.com',
+    appName: 'Telegram Mini App',
+    miniAppUrl: 'https://t.me/my_bot/my_app',
+  },
+  'github-pages': {
+    base: '/reactjs-template/',
+    origin: 'https://telegram-mini-apps.github.io',
+    appName: 'Telegram Mini App',
+    miniAppUrl: 'https://t.me/my_bot/my_app',
+  },
+});
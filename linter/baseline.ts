@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { isInTargets } from './paths';
+import { getRuleId, type LinterConfig, type LocatedLintMessage } from './types';
+
+export interface BaselineEntry {
+  ruleId: string;
+  /**
+   * File path relative to the project root, with forward slashes.
+   */
+  filePath: string;
+  /**
+   * Hash of the rule id and the whitespace-normalized source line the issue was reported on.
+   */
+  hash: string;
+  /**
+   * Number of identical issues in the file.
+   */
+  count: number;
+  /**
+   * Message of the first matching issue. Stored to make the baseline reviewable.
+   */
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  entries: BaselineEntry[];
+}
+
+/**
+ * @returns Absolute path to the baseline file.
+ * @param cwd - project root.
+ * @param config - linter configuration.
+ */
+export function getBaselinePath(cwd: string, config: LinterConfig): string {
+  return path.resolve(cwd, config.baseline || 'lint-baseline.json');
+}
+
+type Fingerprint = Pick<BaselineEntry, 'ruleId' | 'filePath' | 'hash'>;
+
+/**
+ * @returns Function computing fingerprints of messages. Fingerprints do not depend on line
+ * numbers, so issues stay matched when the code above them changes.
+ * @param cwd - project root, the fingerprint paths are relative to.
+ */
+function createFingerprinter(cwd: string): (message: LocatedLintMessage) => Fingerprint {
+  const files = new Map<string, string[]>();
+
+  return (message) => {
+    const ruleId = getRuleId(message) || 'unknown';
+    let lines = files.get(message.filePath);
+    if (!lines) {
+      try {
+        lines = fs.readFileSync(message.filePath, 'utf8').split('\n');
+      } catch {
+        lines = [];
+      }
+      files.set(message.filePath, lines);
+    }
+    const content = (lines[message.line - 1] || '').replace(/\s+/g, ' ').trim();
+
+    return {
+      ruleId,
+      filePath: path.relative(cwd, path.resolve(cwd, message.filePath)).split(path.sep).join('/'),
+      hash: createHash('sha1').update(`${ruleId}\n${content}`).digest('hex').slice(0, 16),
+    };
+  };
+}
+
+const entryKey = (e: Fingerprint): string =>
+  `${e.filePath}\n${e.ruleId}\n${e.hash}`;
+
+/**
+ * @returns Baseline, read from the file, or undefined if the file does not exist.
+ * @param file - absolute path to the baseline file.
+ */
+export function loadBaseline(file: string): Baseline | undefined {
+  return fs.existsSync(file)
+    ? JSON.parse(fs.readFileSync(file, 'utf8')) as Baseline
+    : undefined;
+}
+
+/**
+ * Creates the baseline from the current messages. Entries of the previous baseline, which
+ * belong to files outside the linted targets, are kept as is.
+ * @param messages - current messages of the targets.
+ * @param options - baseline options.
+ */
+export function createBaseline(messages: LocatedLintMessage[], options: {
+  cwd: string;
+  targets: string[];
+  previous?: Baseline;
+}): Baseline {
+  const fingerprint = createFingerprinter(options.cwd);
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const entry of options.previous?.entries || []) {
+    if (!isInTargets(path.resolve(options.cwd, entry.filePath), options.targets)) {
+      entries.set(entryKey(entry), entry);
+    }
+  }
+
+  for (const m of messages) {
+    const fp = fingerprint(m);
+    const key = entryKey(fp);
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      entries.set(key, { ...fp, count: 1, message: m.message });
+    }
+  }
+
+  return {
+    version: 1,
+    entries: [...entries.values()].sort((a, b) => entryKey(a).localeCompare(entryKey(b))),
+  };
+}
+
+export function writeBaseline(file: string, baseline: Baseline): void {
+  fs.writeFileSync(file, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Removes messages, known by the baseline. Every baseline entry suppresses at most `count`
+ * messages, so new occurrences of an already known issue are still reported.
+ * @param messages - messages to filter.
+ * @param baseline - baseline to match against.
+ * @param cwd - project root, the baseline paths are relative to.
+ */
+export function applyBaseline(messages: LocatedLintMessage[], baseline: Baseline, cwd: string): {
+  messages: LocatedLintMessage[];
+  suppressed: number;
+} {
+  const fingerprint = createFingerprinter(cwd);
+  const remaining = new Map(baseline.entries.map(e => [entryKey(e), e.count]));
+  const result: LocatedLintMessage[] = [];
+
+  for (const m of messages) {
+    const key = entryKey(fingerprint(m));
+    const left = remaining.get(key) || 0;
+    if (left > 0) {
+      remaining.set(key, left - 1);
+    } else {
+      result.push(m);
+    }
+  }
+
+  return { messages: result, suppressed: messages.length - result.length };
+}
@@ -0,0 +1,209 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+import type { ESLintFileResult } from './eslint';
+import { getProjectRulesState } from './rules';
+import type { ESLintMessage } from './types';
+import { readTSConfig } from './typescript';
+
+/**
+ * Files the results depend on besides the linted sources. A change in any of them drops the cache.
+ * The lock file pins the versions of ESLint and its plugins.
+ */
+const CONFIG_FILES = ['linter.config.json', 'tsconfig.json', 'eslint.config.js', 'package-lock.json'];
+
+/**
+ * Directory with the sources of the project rules, which drop the cache when changed too.
+ */
+const RULES_DIRECTORY = fileURLToPath(new URL('./rules', import.meta.url));
+
+/**
+ * Bumped when the cache layout or the bundled rules change in an incompatible way.
+ */
+const CACHE_VERSION = 1;
+
+interface CacheEntry {
+  /**
+   * Hash of the file content and the content of all project files it depends on.
+   */
+  hash: string;
+  messages: ESLintMessage[];
+}
+
+interface CacheData {
+  version: typeof CACHE_VERSION;
+  configHash: string;
+  /**
+   * Hash of the project-wide state, which the project rules read.
+   */
+  rulesState: string;
+  /**
+   * Entries by file path relative to the project root, with forward slashes.
+   */
+  files: Record<string, CacheEntry>;
+}
+
+export interface LintCache {
+  /**
+   * Absolute path to the TypeScript build info, which keeps the diagnostics and the exported type
+   * signatures of the type-checked files between runs.
+   */
+  buildInfoFile: string;
+  /**
+   * @returns Cached ESLint result, if neither the file nor its dependencies changed.
+   */
+  getESLintResult: (filePath: string) => ESLintFileResult | undefined;
+  setESLintResult: (result: ESLintFileResult) => void;
+  /**
+   * Writes the cache to disk.
+   */
+  save: () => void;
+}
+
+interface ParsedFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  /**
+   * Absolute paths of the imported project files.
+   */
+  imports: string[];
+}
+
+const sha1 = (data: string): string => createHash('sha1').update(data).digest('hex');
+
+/**
+ * @returns Hash of the configuration files, which exist in the project root, and of the project
+ * rule sources.
+ */
+function getConfigHash(cwd: string): string {
+  const ruleFiles = fs.readdirSync(RULES_DIRECTORY).filter(file => file.endsWith('.ts')).sort();
+  return sha1([
+    String(CACHE_VERSION),
+    ...CONFIG_FILES.map((file) => {
+      const filePath = path.join(cwd, file);
+      return `${file}\n${fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : ''}`;
+    }),
+    ...ruleFiles.map(file => `rules/${file}\n${fs.readFileSync(path.join(RULES_DIRECTORY, file), 'utf8')}`),
+  ].join('\n'));
+}
+
+/**
+ * Opens the on-disk lint cache of the project. The cache is dropped if the configuration changed.
+ *
+ * ESLint results are keyed by the content hash of the file and of every project file it imports,
+ * directly or transitively. Typed rules see the resolved types of the imported declarations, so
+ * a change of the exported types anywhere in the import chain invalidates the result, even if the
+ * declarations of the intermediate files stay the same. Project rules reading other files, such as
+ * the route table, are covered by `getProjectRulesState`.
+ * @param cwd - project root.
+ * @param directory - cache directory, relative to the project root.
+ */
+export function openLintCache(cwd: string, directory = 'node_modules/.cache/lint'): LintCache {
+  const root = path.resolve(cwd, directory);
+  const resultsFile = path.join(root, 'results.json');
+  const buildInfoFile = path.join(root, 'tsconfig.tsbuildinfo');
+  const configHash = getConfigHash(cwd);
+  const rulesState = getProjectRulesState(cwd);
+
+  let data: CacheData | undefined;
+  try {
+    data = JSON.parse(fs.readFileSync(resultsFile, 'utf8')) as CacheData;
+  } catch {
+    // Missing or corrupted cache is the same as no cache
+  }
+  if (!data || data.version !== CACHE_VERSION || data.configHash !== configHash) {
+    data = { version: CACHE_VERSION, configHash, rulesState, files: {} };
+    fs.rmSync(buildInfoFile, { force: true });
+  } else if (data.rulesState !== rulesState) {
+    // The type-checker state does not depend on the rules, so only the ESLint results are dropped
+    data = { ...data, rulesState, files: {} };
+  }
+  const { files } = data;
+
+  const toKey = (filePath: string): string =>
+    path.relative(cwd, path.resolve(cwd, filePath)).split(path.sep).join('/');
+
+  // Path aliases from tsconfig.json are needed to resolve the imports
+  const compilerOptions = readTSConfig(cwd).options;
+
+  // Files are parsed once, unless ESLint fixes change them during the run
+  const parsed = new Map<string, ParsedFile>();
+  const parse = (filePath: string): ParsedFile | undefined => {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      return;
+    }
+    const known = parsed.get(filePath);
+    if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+      return known;
+    }
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const file: ParsedFile = {
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      hash: sha1(content),
+      imports: ts.preProcessFile(content, true, true).importedFiles.flatMap(({ fileName }) => {
+        const { resolvedModule } = ts.resolveModuleName(fileName, filePath, compilerOptions, ts.sys);
+        return resolvedModule && !resolvedModule.isExternalLibraryImport
+          ? [path.resolve(resolvedModule.resolvedFileName)]
+          : [];
+      }),
+    };
+    parsed.set(filePath, file);
+    return file;
+  };
+
+  const hashDependencies = (filePath: string): string | undefined => {
+    const visited = new Map<string, string>();
+    const visit = (current: string): boolean => {
+      if (visited.has(current)) {
+        return true;
+      }
+      const file = parse(current);
+      if (!file) {
+        return false;
+      }
+      visited.set(current, file.hash);
+      return file.imports.every(visit);
+    };
+    if (!visit(path.resolve(cwd, filePath))) {
+      return;
+    }
+    return sha1([...visited]
+      .map(([f, hash]) => `${toKey(f)}:${hash}`)
+      .sort()
+      .join('\n'));
+  };
+
+  return {
+    buildInfoFile,
+    getESLintResult(filePath): ESLintFileResult | undefined {
+      const entry = files[toKey(filePath)];
+      if (!entry || entry.hash !== hashDependencies(filePath)) {
+        return;
+      }
+      return { filePath: path.resolve(cwd, filePath), messages: entry.messages, cached: true };
+    },
+    setESLintResult(result): void {
+      const hash = hashDependencies(result.filePath);
+      // Results of files with pending fixes describe the fixed content, which is not on disk. Results
+      // with fixes left unapplied are not reused either, so the next run with fixing applies them.
+      if (result.output !== undefined || result.fixable || hash === undefined) {
+        delete files[toKey(result.filePath)];
+        return;
+      }
+      files[toKey(result.filePath)] = { hash, messages: result.messages };
+    },
+    save(): void {
+      fs.mkdirSync(root, { recursive: true });
+      fs.writeFileSync(resultsFile, JSON.stringify(data));
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as util from 'util';
+
+import { OUTPUT_FORMATS, type OutputFormat } from './types';
+
+export type Engine = 'eslint' | 'typescript';
+
+export interface CliOptions {
+  help: boolean;
+  targets: string[];
+  format: OutputFormat;
+  fix: boolean;
+  fixDryRun: boolean;
+  only?: Engine;
+  level?: number;
+  watch: boolean;
+  updateBaseline: boolean;
+  changed: boolean;
+  changedRef?: string;
+  staged: boolean;
+  changedLines: boolean;
+  cache: boolean;
+}
+
+export const HELP = `Usage: npx tsx lint.ts [options] [paths...]
+
+Runs ESLint and the TypeScript compiler and reports the combined, prioritized diagnostics.
+Paths default to the current directory.
+
+Options:
+  -h, --help            Show this help.
+  -f, --format <name>   Output format: ${OUTPUT_FORMATS.join(', ')}. Defaults to text.
+      --no-fix          Do not apply ESLint fixes.
+      --fix-dry-run     Print a unified diff of the ESLint fixes instead of applying them.
+      --only <engine>   Run a single engine: eslint or typescript.
+      --level <n>       Report only issues from priority levels 1 to n.
+      --watch           Keep running and re-check the files affected by each change.
+      --update-baseline Record the current issues in the baseline file.
+      --changed [ref]   Lint only files changed compared to ref (HEAD by default).
+      --staged          Lint only staged files, which must have no unstaged changes.
+      --changed-lines   With --changed or --staged, report only issues on touched lines.
+      --no-cache        Do not read or write the lint cache in node_modules/.cache/lint.
+`;
+
+/**
+ * Parses the command line arguments.
+ * @param argv - arguments without the node and script paths.
+ * @throws {Error} If arguments are invalid or incompatible.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  // "--changed" accepts an optional git reference: the next argument, unless it is a flag or
+  // an existing path. The parser does not support optional values, so it is normalized first.
+  const args = argv.flatMap((arg, i) => {
+    if (arg !== '--changed') {
+      return i > 0 && argv[i - 1] === '--changed' && !arg.startsWith('-') && !fs.existsSync(arg)
+        ? []
+        : [arg];
+    }
+    const next = argv[i + 1];
+    return [`--changed=${next && !next.startsWith('-') && !fs.existsSync(next) ? next : ''}`];
+  });
+
+  const { values, positionals } = util.parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'help': { type: 'boolean', short: 'h', default: false },
+      'format': { type: 'string', short: 'f', default: 'text' },
+      'no-fix': { type: 'boolean', default: false },
+      'fix-dry-run': { type: 'boolean', default: false },
+      'only': { type: 'string' },
+      'level': { type: 'string' },
+      'watch': { type: 'boolean', default: false },
+      'update-baseline': { type: 'boolean', default: false },
+      'changed': { type: 'string' },
+      'staged': { type: 'boolean', default: false },
+      'changed-lines': { type: 'boolean', default: false },
+      'no-cache': { type: 'boolean', default: false },
+    },
+  });
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format "${format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const only = values.only as Engine | undefined;
+  if (only !== undefined && only !== 'eslint' && only !== 'typescript') {
+    throw new Error(`Unknown engine "${values.only}". Expected one of: eslint, typescript`);
+  }
+
+  let level: number | undefined;
+  if (values.level !== undefined) {
+    level = Number(values.level);
+    if (!Number.isInteger(level)) {
+      throw new Error(`Level must be an integer, got "${values.level}"`);
+    }
+  }
+
+  const options: CliOptions = {
+    help: values.help,
+    targets: positionals.length ? positionals : ['.'],
+    format,
+    fix: !values['no-fix'] && !values['fix-dry-run'],
+    fixDryRun: values['fix-dry-run'],
+    only,
+    level,
+    watch: values.watch,
+    updateBaseline: values['update-baseline'],
+    changed: values.changed !== undefined || values.staged,
+    changedRef: values.changed || undefined,
+    staged: values.staged,
+    changedLines: values['changed-lines'],
+    cache: !values['no-cache'],
+  };
+
+  if (options.changed && (options.watch || options.updateBaseline)) {
+    throw new Error('--changed and --staged cannot be combined with --watch or --update-baseline');
+  }
+  // The baseline is recreated for the targets, so the issues of the skipped engine would be lost
+  if (options.only && options.updateBaseline) {
+    throw new Error('--only cannot be combined with --update-baseline');
+  }
+  if (options.changedLines && !options.changed) {
+    throw new Error('--changed-lines requires --changed or --staged');
+  }
+  if (options.watch && (options.fixDryRun || options.only || options.updateBaseline)) {
+    throw new Error('--watch cannot be combined with --fix-dry-run, --only or --update-baseline');
+  }
+  return options;
+}
@@ -0,0 +1,24 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { LinterConfig, PriorityLevel } from './types';
+
+//
+// Load configuration
+//
+export function loadLinterConfig(cwd: string): LinterConfig {
+  const configPath = path.resolve(cwd, './linter.config.json');
+  return fs.existsSync(configPath)
+    ? JSON.parse(fs.readFileSync(configPath, 'utf8')) as LinterConfig
+    : { priorityLevels: [] };
+}
+
+/**
+ * @returns Priority levels sorted from the highest priority to the lowest one.
+ * @param config - linter configuration.
+ */
+export function getSortedLevels(config: LinterConfig): PriorityLevel[] {
+  return config.priorityLevels
+    .slice()
+    .sort((a, b) => a.level - b.level);
+}
@@ -0,0 +1,51 @@
+import type { LinterConfig, RuleDoc } from './types';
+
+const SUGGEST_MEMBERS_URL = 'https://www.npmjs.com/package/@ton-ai-core/eslint-plugin-suggest-members';
+
+/**
+ * Documentation of the rules from the default priority levels. Entries of the `ruleDocs`
+ * configuration field are merged on top of them. URLs must be absolute, as they become links in
+ * the SARIF output and in the dev overlay, so rules without a dedicated page have only the hint.
+ */
+export const DEFAULT_RULE_DOCS: Record<string, RuleDoc> = {
+  '@ton-ai-core/suggest-members/suggest-members': {
+    url: SUGGEST_MEMBERS_URL,
+    hint: 'The property or method does not exist on this type. Use one of the suggested members, or extend the type if the member is really there.',
+  },
+  '@ton-ai-core/suggest-members/suggest-imports': {
+    url: SUGGEST_MEMBERS_URL,
+    hint: 'The module does not export this name. Import one of the suggested names, or check the module the name is exported from.',
+  },
+  '@ton-ai-core/suggest-members/suggest-module-paths': {
+    url: SUGGEST_MEMBERS_URL,
+    hint: 'The module path does not resolve. Use one of the suggested paths, and keep the "@/" alias for files under src.',
+  },
+  '@typescript-eslint/no-explicit-any': {
+    url: 'https://typescript-eslint.io/rules/no-explicit-any/',
+    hint: 'Describe the value with a concrete type. Use "unknown" and narrow it when the type is really not known.',
+  },
+  'project/link-targets': {
+    hint: 'Fix the typo in the link target, or add the route to src/navigation/routes.tsx.',
+  },
+  'project/route-pages': {
+    hint: 'Wrap the page content into <Page>, so the back button is shown and hidden correctly.',
+  },
+  'project/unique-bem-blocks': {
+    hint: 'Rename one of the blocks. BEM blocks share the global CSS namespace, so equal names conflict.',
+  },
+  TS2554: {
+    hint: 'The call passes a different number of arguments than the function declares. Compare the call with the signature shown by the editor.',
+  },
+};
+
+/**
+ * @returns Documentation of the rules: built-in defaults merged with the configured entries.
+ * @param config - linter configuration.
+ */
+export function getRuleDocs(config: LinterConfig): Record<string, RuleDoc> {
+  const docs = { ...DEFAULT_RULE_DOCS };
+  for (const [ruleId, doc] of Object.entries(config.ruleDocs || {})) {
+    docs[ruleId] = { ...docs[ruleId], ...doc };
+  }
+  return docs;
+}
@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { ESLint, type Linter } from 'eslint';
+
+import type { LintCache } from './cache';
+import { projectRulesConfig } from './rules';
+import type { ESLintMessage } from './types';
+
+export interface ESLintFileResult {
+  filePath: string;
+  messages: ESLintMessage[];
+  /**
+   * Fixed source code. Present only if fixes changed the file.
+   */
+  output?: string;
+  /**
+   * True if some messages have fixes, which were not applied, for example in the "--no-fix" mode.
+   */
+  fixable?: boolean;
+  /**
+   * True if the result was taken from the lint cache.
+   */
+  cached?: boolean;
+}
+
+/**
+ * @returns ESLint instance using eslint.config.js together with the project rules.
+ * @param options - ESLint options.
+ */
+export function createESLint(options: { cwd: string; fix: boolean }): ESLint {
+  // The project rules config uses the typescript-eslint types, which differ from the ESLint ones
+  // only in the rule context type.
+  return new ESLint({ ...options, overrideConfig: projectRulesConfig as Linter.Config });
+}
+
+/**
+ * @returns Files of the targets, which ESLint would lint.
+ * @param eslint - ESLint instance.
+ * @param targets - files or directories.
+ * @param cwd - directory the targets are relative to.
+ */
+async function listFiles(eslint: ESLint, targets: string[], cwd: string): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (filePath: string, explicit: boolean): Promise<void> => {
+    const stat = fs.statSync(filePath);
+    if (stat.isDirectory()) {
+      const name = path.basename(filePath);
+      if (!explicit && (name === 'node_modules' || name.startsWith('.'))) {
+        return;
+      }
+      for (const entry of fs.readdirSync(filePath)) {
+        await visit(path.join(filePath, entry), false);
+      }
+    } else if (!await eslint.isPathIgnored(filePath)) {
+      files.push(filePath);
+    }
+  };
+  for (const target of targets) {
+    await visit(path.resolve(cwd, target), true);
+  }
+  return files;
+}
+
+/**
+ * Lints the targets using the ESLint Node API. When fixing is enabled, fixes are applied
+ * in the same pass and the returned messages are the ones which remained unfixed.
+ *
+ * With the cache, only files without a valid cache entry are linted, and the cache is updated
+ * with their results.
+ * @param targets - files or directories to lint.
+ * @param options - lint options.
+ */
+export async function getESLintResults(targets: string[], options: {
+  cwd: string;
+  fix: boolean;
+  /**
+   * Compute fixes without writing them to disk.
+   */
+  dryRun?: boolean;
+  cache?: LintCache;
+}): Promise<ESLintFileResult[]> {
+  const { cache } = options;
+  const eslint = createESLint({ cwd: options.cwd, fix: options.fix || !!options.dryRun });
+
+  const cachedResults: ESLintFileResult[] = [];
+  let lintTargets = targets;
+  if (cache) {
+    lintTargets = [];
+    for (const filePath of await listFiles(eslint, targets, options.cwd)) {
+      const cached = cache.getESLintResult(filePath);
+      if (cached) {
+        cachedResults.push(cached);
+      } else {
+        lintTargets.push(filePath);
+      }
+    }
+  }
+
+  const results = lintTargets.length ? await eslint.lintFiles(lintTargets) : [];
+
+  if (options.fix && !options.dryRun) {
+    await ESLint.outputFixes(results);
+  }
+
+  const fileResults = toESLintFileResults(results);
+  if (cache) {
+    for (const result of fileResults) {
+      // Fixed files are on disk now, so their remaining messages describe the current content
+      cache.setESLintResult(options.dryRun ? result : { ...result, output: undefined });
+    }
+  }
+  return [...cachedResults, ...fileResults];
+}
+
+/**
+ * @returns Unified diff between the file on disk and its fixed version.
+ * @param result - result with the fixed output.
+ * @param cwd - directory the diff paths are relative to.
+ */
+export function formatFixDiff(result: ESLintFileResult & { output: string }, cwd: string): string {
+  const relativePath = path.relative(cwd, result.filePath).split(path.sep).join('/');
+  return createTwoFilesPatch(
+    `a/${relativePath}`,
+    `b/${relativePath}`,
+    fs.readFileSync(result.filePath, 'utf8'),
+    result.output,
+  );
+}
+
+/**
+ * Converts ESLint results to the linter representation.
+ * @param results - results returned by the ESLint Node API.
+ */
+export function toESLintFileResults(results: ESLint.LintResult[]): ESLintFileResult[] {
+  return results.map(result => ({
+    filePath: result.filePath,
+    messages: result.messages.map(m => ({
+      ruleId: m.ruleId,
+      severity: m.severity,
+      message: m.message,
+      line: m.line,
+      column: m.column,
+      endLine: m.endLine,
+      endColumn: m.endColumn,
+      source: 'eslint' as const,
+    })),
+    ...(result.messages.some(m => m.fix) ? { fixable: true } : {}),
+    ...(result.output === undefined ? {} : { output: result.output }),
+  }));
+}
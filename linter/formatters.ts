@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  findPriorityLevel,
+  getRuleId,
+  type ESLintMessage,
+  type LevelGroup,
+  type LocatedLintMessage,
+  type PriorityLevel,
+  type RelatedInformation,
+  type RuleDoc,
+  type TypeScriptMessage,
+} from './types';
+
+/**
+ * Message enriched with the data required by machine-readable reporters.
+ */
+export interface ReportedLintMessage {
+  source: LocatedLintMessage['source'];
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  filePath: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  relatedInformation?: RelatedInformation[];
+  priority: { level: number; name: string } | null;
+  docs?: RuleDoc;
+}
+
+/**
+ * Converts combined lint messages to the reporter-friendly shape.
+ * @param messages - messages to convert. Expected to be already sorted.
+ * @param levels - configured priority levels.
+ * @param ruleDocs - documentation by rule id.
+ */
+export function toReportedMessages(
+  messages: LocatedLintMessage[],
+  levels: PriorityLevel[],
+  ruleDocs: Record<string, RuleDoc> = {},
+): ReportedLintMessage[] {
+  return messages.map((m) => {
+    const L = findPriorityLevel(levels, m);
+    const ruleId = getRuleId(m);
+    const docs = ruleId ? ruleDocs[ruleId] : undefined;
+    return {
+      source: m.source,
+      ruleId,
+      severity: m.severity,
+      message: m.message,
+      filePath: m.filePath,
+      line: m.line,
+      column: m.column,
+      endLine: m.endLine,
+      endColumn: m.endColumn,
+      ...(m.source === 'typescript' && m.relatedInformation
+        ? { relatedInformation: m.relatedInformation }
+        : {}),
+      priority: L ? { level: L.level, name: L.name } : null,
+      ...(docs ? { docs } : {}),
+    };
+  });
+}
+
+/**
+ * @returns Number of messages per rule, the most frequent rules first.
+ * @param ruleIds - rule ids of the messages to count.
+ */
+export function countByRule(ruleIds: (string | null)[]): { ruleId: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const id of ruleIds) {
+    const ruleId = id || 'unknown';
+    counts.set(ruleId, (counts.get(ruleId) || 0) + 1);
+  }
+  return [...counts]
+    .map(([ruleId, count]) => ({ ruleId, count }))
+    .sort((a, b) => b.count - a.count || a.ruleId.localeCompare(b.ruleId));
+}
+
+export interface FormatOptions {
+  /**
+   * Print JSON documents on a single line. Used in watch mode, where every update is
+   * a separate document.
+   */
+  compact?: boolean;
+}
+
+/**
+ * @returns Path relative to the working directory with forward slashes.
+ * @param filePath - absolute or relative file path.
+ */
+function toRelativePath(filePath: string): string {
+  return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+//
+// JSON
+//
+export function formatJSON(messages: ReportedLintMessage[], options: FormatOptions = {}): string {
+  const errorCount = messages.filter(m => m.severity === 2).length;
+  const warningCount = messages.filter(m => m.severity === 1).length;
+
+  return JSON.stringify({
+    messages,
+    summary: {
+      errorCount,
+      warningCount,
+      rules: countByRule(messages.map(m => m.ruleId)),
+    },
+  }, null, options.compact ? undefined : 2);
+}
+
+//
+// SARIF 2.1.0
+// https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+//
+function toPhysicalLocation(location: {
+  filePath: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}): object {
+  return {
+    artifactLocation: { uri: toRelativePath(location.filePath), uriBaseId: '%SRCROOT%' },
+    region: {
+      startLine: location.line,
+      startColumn: location.column,
+      ...(location.endLine ? { endLine: location.endLine } : {}),
+      ...(location.endColumn ? { endColumn: location.endColumn } : {}),
+    },
+  };
+}
+
+export function formatSARIF(messages: ReportedLintMessage[], options: FormatOptions = {}): string {
+  const rules = new Map<string, ReportedLintMessage>();
+  for (const m of messages) {
+    const ruleId = m.ruleId || 'unknown';
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, m);
+    }
+  }
+
+  return JSON.stringify({
+    version: '2.1.0',
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'lint.ts',
+          rules: [...rules].map(([id, m]) => ({
+            id,
+            ...(m.docs?.url ? { helpUri: m.docs.url } : {}),
+            ...(m.docs?.hint ? { help: { text: m.docs.hint } } : {}),
+            properties: { source: m.source, priority: m.priority },
+          })),
+        },
+      },
+      results: messages.map((m) => ({
+        ruleId: m.ruleId || 'unknown',
+        level: m.severity === 2 ? 'error' : 'warning',
+        message: { text: m.message },
+        locations: [{ physicalLocation: toPhysicalLocation(m) }],
+        ...(m.relatedInformation ? {
+          relatedLocations: m.relatedInformation.map((info, id) => ({
+            id,
+            message: { text: info.message },
+            physicalLocation: toPhysicalLocation(info),
+          })),
+        } : {}),
+        properties: { source: m.source, priority: m.priority },
+      })),
+    }],
+  }, null, options.compact ? undefined : 2);
+}
+
+//
+// GitHub workflow commands
+// https://docs.github.com/en/actions/writing-workflows/choosing-what-your-workflow-does/workflow-commands-for-github-actions
+//
+const escapeData = (value: string): string =>
+  value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+const escapeProperty = (value: string): string =>
+  escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+export function formatGitHub(messages: ReportedLintMessage[]): string {
+  return messages.map((m) => {
+    const title = `${m.ruleId || 'unknown'}${m.priority ? ` (Level ${m.priority.level}: ${m.priority.name})` : ''}`;
+    const props = [
+      `file=${escapeProperty(toRelativePath(m.filePath))}`,
+      `line=${m.line}`,
+      `col=${m.column}`,
+      ...(m.endLine ? [`endLine=${m.endLine}`] : []),
+      ...(m.endColumn ? [`endColumn=${m.endColumn}`] : []),
+      `title=${escapeProperty(title)}`,
+    ];
+    return `::${m.severity === 2 ? 'error' : 'warning'} ${props.join(',')}::${escapeData(m.message)}`;
+  }).join('\n');
+}
+
+//
+// Human-oriented text with code frames
+//
+/**
+ * Sorts messages by severity, priority level and location.
+ * @param messages - messages to sort in place.
+ * @param levels - configured priority levels.
+ */
+export function sortMessages(messages: LocatedLintMessage[], levels: PriorityLevel[]): void {
+  const getLevel = (message: LocatedLintMessage): number =>
+    findPriorityLevel(levels, message)?.level ?? Infinity;
+
+  messages.sort((a, b) => {
+    if (b.severity - a.severity) return b.severity - a.severity;
+    const la = getLevel(a), lb = getLevel(b);
+    if (la !== lb) return la - lb;
+    if (a.filePath !== b.filePath) return a.filePath.localeCompare(b.filePath);
+    if (a.line !== b.line) return a.line - b.line;
+    return a.column - b.column;
+  });
+}
+
+export interface TextFormatOptions {
+  /**
+   * Documentation by rule id, printed under the diagnostics.
+   */
+  ruleDocs?: Record<string, RuleDoc>;
+  /**
+   * Maximum number of messages printed per level. Defaults to 15.
+   */
+  displayLimit?: number;
+  /**
+   * Print all non-empty levels instead of the highest priority one only.
+   */
+  displayAllLevels?: boolean;
+}
+
+/**
+ * @returns Text report containing the highest priority group of messages (or all of them) with
+ * highlighted code frames, followed by the summary line.
+ * @param groups - sorted messages grouped by priority level.
+ * @param options - display options.
+ */
+export function formatText(groups: LevelGroup[], options: TextFormatOptions = {}): string {
+  const { displayLimit = 15, displayAllLevels = false, ruleDocs = {} } = options;
+  const messages = groups.flatMap(g => g.messages);
+  const out: string[] = [];
+
+  //
+  // Print results with highlighting
+  //
+  const printer = (msgs: LocatedLintMessage[]): void => {
+    const cache = new Map<string, string[]>();
+    for (const m of msgs.slice(0, displayLimit)) {
+      const { filePath, line, column, message, severity, source } = m;
+      const sevLabel = severity === 2 ? "[ERROR]" : "[WARN ]";
+      const ruleId = source === 'typescript' ? m.code : m.ruleId || 'unknown';
+      const sourceLabel = source === 'typescript' ? '(TypeScript)' : '(ESLint)';
+      
+      out.push(`\n${sevLabel} ${filePath}:${line}:${column}  ${ruleId} ${sourceLabel} — ${message}`);
+
+      if (!cache.has(filePath)) {
+        try {
+          cache.set(filePath, fs.readFileSync(filePath, "utf8").split("\n"));
+        } catch {
+          out.push("  (Could not read file for context)");
+          continue;
+        }
+      }
+      const lines = cache.get(filePath);
+      if (!lines) continue;
+      const start = Math.max(line - 3, 0);
+      const end = Math.min(line + 2, lines.length);
+
+      for (let i = start; i < end; i++) {
+        const prefix = i === line - 1 ? ">" : " ";
+        const num = String(i + 1).padStart(4);
+        const currentLine = lines[i];
+        const lineContent = ` ${prefix} ${num} | ${currentLine}`;
+        out.push(lineContent);
+        
+        if (i === line - 1) {
+          // Calculate highlighting
+          const prefixLength = ` ${prefix} ${num} | `.length;
+          const startCol = Math.max(0, column - 1); // column is 1-based
+          
+          let endCol: number;
+          if (m.endLine && m.endLine > line) {
+            // Multi-line span, highlight till the end of the first line
+            endCol = currentLine.length;
+          } else if ('endColumn' in m && m.endColumn) {
+            endCol = Math.min(m.endColumn - 1, currentLine.length);
+          } else if (source === 'typescript') {
+            // For TypeScript errors, show exactly where TS points
+            // But try to highlight a meaningful token if possible
+            const charAtPos = currentLine[startCol];
+            
+            // Special case for "Expected X arguments" errors
+            if (message.includes('Expected') && message.includes('arguments')) {
+              // Try to find the position after the last comma in a function call
+              const beforeCursor = currentLine.substring(0, startCol + 15); // Look ahead a bit
+              const funcCallMatch = beforeCursor.match(/([a-zA-Z_$][a-zA-Z0-9_$]*)\s*\([^)]*$/);
+              if (funcCallMatch) {
+                // Find the position after the last comma or opening parenthesis
+                const lastCommaPos = beforeCursor.lastIndexOf(',');
+                const openParenPos = beforeCursor.lastIndexOf('(');
+                const targetPos = Math.max(lastCommaPos, openParenPos);
+                if (targetPos !== -1) {
+                  // Position cursor after the comma/paren and any whitespace
+                  let newStartCol = targetPos + 1;
+                  while (newStartCol < currentLine.length && /\s/.test(currentLine[newStartCol])) {
+                    newStartCol++;
+                  }
+                  endCol = newStartCol + 1;
+                } else {
+                  endCol = startCol + 1;
+                }
+              } else {
+                endCol = startCol + 1;
+              }
+            } else if (charAtPos && /[a-zA-Z_$]/.test(charAtPos)) {
+              // If it's the start of an identifier, highlight the whole identifier
+              const remainingLine = currentLine.substring(startCol);
+              const wordMatch = remainingLine.match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/);
+              if (wordMatch) {
+                endCol = Math.min(startCol + wordMatch[0].length, currentLine.length);
+              } else {
+                endCol = startCol + 1;
+              }
+            } else {
+              // For other cases (like missing arguments), show single character
+              endCol = startCol + 1;
+            }
+          } else {
+            endCol = startCol + 1;
+          }
+          
+          // Create highlight line
+          const beforeHighlight = " ".repeat(prefixLength + startCol);
+          const highlightLength = Math.max(1, endCol - startCol);
+          const highlight = "^".repeat(highlightLength);
+          
+          out.push(`${beforeHighlight}${highlight}`);
+        }
+      }
+
+      if (m.source === 'typescript' && m.relatedInformation) {
+        for (const info of m.relatedInformation) {
+          out.push(`  ↳ ${info.filePath}:${info.line}:${info.column} — ${info.message}`);
+        }
+      }
+
+      const docs = ruleDocs[ruleId];
+      if (docs?.hint) {
+        out.push(`  💡 ${docs.hint}`);
+      }
+      if (docs?.url) {
+        out.push(`  📖 ${docs.url}`);
+      }
+    }
+  };
+
+  // Print messages by priority levels
+  let printed = false;
+  for (const { level: L, messages: group } of groups) {
+    if (L && group.length && (!printed || displayAllLevels)) {
+      out.push(`\n=== Level ${L.level}: ${L.name} (${group.length} issues) ===`);
+      printer(group);
+      printed = true;
+    }
+  }
+
+  const uncategorized = groups.find(g => !g.level)?.messages || [];
+  if ((!printed || displayAllLevels) && uncategorized.length) {
+    out.push(`\n=== Critical Compiler Errors (${uncategorized.length} issues) ===`);
+    printer(uncategorized);
+  }
+
+  if (messages.length) {
+    out.push(`\n📋 Issues by rule:`);
+    for (const { ruleId, count } of countByRule(messages.map(getRuleId))) {
+      out.push(`${String(count).padStart(6)}  ${ruleId}`);
+    }
+  }
+
+  const errorCount = messages.filter(m => m.severity === 2).length;
+  const warningCount = messages.filter(m => m.severity === 1).length;
+  const tsErrorCount = messages.filter(m => m.source === 'typescript' && m.severity === 2).length;
+  const eslintErrorCount = errorCount - tsErrorCount;
+
+  out.push(`\n📊 Total: ${errorCount} errors (${tsErrorCount} TypeScript, ${eslintErrorCount} ESLint), ${warningCount} warnings.`);
+
+  return out.join('\n');
+}
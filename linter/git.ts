@@ -0,0 +1,148 @@
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+
+/**
+ * Inclusive range of changed lines in the new version of the file.
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface ChangedFile {
+  /**
+   * Absolute file path.
+   */
+  filePath: string;
+  /**
+   * Changed lines, or "all" for files git does not track yet.
+   */
+  lines: LineRange[] | 'all';
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', ['-c', 'core.quotePath=false', ...args], {
+    cwd,
+    encoding: 'utf8',
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/**
+ * Parses the zero-context unified diff into the list of changed files with their hunks.
+ * @param diff - output of `git diff -U0`.
+ * @param root - repository root, the diff paths are relative to.
+ */
+function parseDiff(diff: string, root: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  let current: LineRange[] | undefined;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4);
+      if (target === '/dev/null') {
+        current = undefined;
+        continue;
+      }
+      current = [];
+      files.push({ filePath: path.resolve(root, target.replace(/^b\//, '')), lines: current });
+      continue;
+    }
+
+    // Hunk header: "@@ -12,3 +14,5 @@". Omitted count means 1, zero count means pure deletion.
+    const match = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (match && current) {
+      const start = parseInt(match[1]);
+      const count = match[2] === undefined ? 1 : parseInt(match[2]);
+      if (count > 0) {
+        current.push({ start, end: start + count - 1 });
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Computes files changed according to git along with the changed lines.
+ *
+ * In the staged mode, changes added to the index are returned. Otherwise, changes of the working
+ * tree compared to the reference (HEAD by default) are returned, including untracked files.
+ * Linting uses the working tree content, so the staged mode rejects files with unstaged changes.
+ * @param cwd - directory inside the repository.
+ * @param options - diff options.
+ * @throws {Error} If git is not available, the reference is unknown, or staged files have unstaged
+ * changes.
+ */
+export function getChangedFiles(cwd: string, options: {
+  ref?: string;
+  staged: boolean;
+}): ChangedFile[] {
+  const root = git(cwd, ['rev-parse', '--show-toplevel']).trim();
+  // Explicit prefixes override the diff.noprefix and diff.mnemonicPrefix settings parseDiff relies on
+  const diffArgs = [
+    'diff',
+    '-U0',
+    '--no-color',
+    '--no-ext-diff',
+    '--diff-filter=ACMR',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+  ];
+  if (options.staged) {
+    diffArgs.push('--cached');
+  }
+  if (options.ref) {
+    diffArgs.push(options.ref);
+  } else if (!options.staged) {
+    diffArgs.push('HEAD');
+  }
+  diffArgs.push('--');
+
+  const files = parseDiff(git(root, diffArgs), root);
+
+  // The working tree files are linted, so their content must match the staged line ranges
+  if (options.staged) {
+    const unstaged = new Set(git(root, ['diff', '--name-only', '--no-ext-diff', '--'])
+      .split('\n')
+      .filter(Boolean)
+      .map(file => path.resolve(root, file)));
+    const mismatched = files.filter(f => unstaged.has(f.filePath));
+    if (mismatched.length) {
+      throw new Error(`Staged files have unstaged changes, stage or stash them first: ${
+        mismatched.map(f => path.relative(cwd, f.filePath)).join(', ')}`);
+    }
+  } else {
+    const untracked = git(root, ['ls-files', '--others', '--exclude-standard'])
+      .split('\n')
+      .filter(Boolean);
+    for (const file of untracked) {
+      files.push({ filePath: path.resolve(root, file), lines: 'all' });
+    }
+  }
+  return files;
+}
+
+/**
+ * Leaves only messages, which overlap with the changed lines.
+ * @param messages - messages to filter.
+ * @param files - changed files.
+ */
+export function filterMessagesByChangedLines<T extends {
+  filePath: string;
+  line: number;
+  endLine?: number;
+}>(messages: T[], files: ChangedFile[]): T[] {
+  const byFile = new Map(files.map(f => [path.resolve(f.filePath), f.lines]));
+
+  return messages.filter((m) => {
+    const lines = byFile.get(path.resolve(m.filePath));
+    if (!lines) {
+      return false;
+    }
+    if (lines === 'all') {
+      return true;
+    }
+    const end = m.endLine || m.line;
+    return lines.some(r => m.line <= r.end && end >= r.start);
+  });
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { CommandResult, WatchCommand } from '../plugins/commandOverlay';
+import type { OverlayDiagnostic, OverlayLevel } from '../src/devtools/commandOverlay/protocol';
+import { applyBaseline, getBaselinePath, loadBaseline } from './baseline';
+import { getSortedLevels, loadLinterConfig } from './config';
+import { getRuleDocs } from './docs';
+import { formatText, sortMessages } from './formatters';
+import { evaluatePolicy, formatPolicy, type PolicyResult } from './policy';
+import { getRuleId, groupMessagesByLevel, type LocatedLintMessage, type RuleDoc } from './types';
+import { createLintWatcher } from './watch';
+
+/**
+ * Creates the command overlay report of the lint run. Messages are grouped by priority level,
+ * and every message carries its code frame, so the overlay does not need access to the files.
+ * @param policy - policy evaluation result with the sorted messages of every level.
+ * @param options - report options.
+ */
+export function createLintResult(policy: PolicyResult, options: {
+  cwd: string;
+  ruleDocs: Record<string, RuleDoc>;
+  /**
+   * Maximum number of messages sent per level. Defaults to 15.
+   */
+  displayLimit?: number;
+}): CommandResult {
+  const { cwd, ruleDocs, displayLimit = 15 } = options;
+  const files = new Map<string, string[]>();
+
+  const toDiagnostic = (m: LocatedLintMessage): OverlayDiagnostic => {
+    const filePath = path.resolve(cwd, m.filePath);
+    let lines = files.get(filePath);
+    if (!lines) {
+      try {
+        lines = fs.readFileSync(filePath, 'utf8').split('\n');
+      } catch {
+        lines = [];
+      }
+      files.set(filePath, lines);
+    }
+    const ruleId = getRuleId(m) || 'unknown';
+    const start = Math.max(m.line - 3, 0);
+    const end = Math.min(m.line + 2, lines.length);
+
+    return {
+      severity: m.severity === 2 ? 'error' : 'warning',
+      ruleId,
+      source: m.source === 'typescript' ? 'TypeScript' : 'ESLint',
+      message: m.message,
+      filePath,
+      relativePath: path.relative(cwd, filePath).split(path.sep).join('/'),
+      line: m.line,
+      column: m.column,
+      endLine: m.endLine,
+      endColumn: m.endColumn,
+      codeFrame: lines.slice(start, end).map((text, i) => ({ line: start + i + 1, text })),
+      ...ruleDocs[ruleId],
+    };
+  };
+
+  const overlayLevels = policy.levels
+    .filter(r => r.issueCount)
+    .map((r): OverlayLevel => ({
+      level: r.level,
+      name: r.name,
+      exceeded: r.exceeded,
+      issueCount: r.issueCount,
+      diagnostics: r.messages.slice(0, displayLimit).map(toDiagnostic),
+    }));
+  const messages = policy.levels.flatMap(r => r.messages);
+
+  return {
+    failed: policy.failed,
+    levels: overlayLevels,
+    errorCount: messages.filter(m => m.severity === 2).length,
+    warningCount: messages.filter(m => m.severity === 1).length,
+  };
+}
+
+/**
+ * @returns Command overlay command, which runs the lint watcher inside the dev server process.
+ * Only the files affected by a change are re-checked, and every update is reported with the
+ * baseline and the level policy of linter.config.json applied.
+ * @param options - command options.
+ */
+export function createLintCommand(options: {
+  name?: string;
+  targets: string[];
+  fix: boolean;
+}): WatchCommand {
+  return {
+    name: options.name || 'lint',
+    watch(report, { root, logger }) {
+      const config = loadLinterConfig(root);
+      const levels = getSortedLevels(config);
+      const baseline = loadBaseline(getBaselinePath(root, config));
+      const ruleDocs = getRuleDocs(config);
+
+      const watcher = createLintWatcher({
+        cwd: root,
+        targets: options.targets,
+        fix: options.fix,
+        onUpdate(update) {
+          const { messages } = baseline
+            ? applyBaseline(update.messages, baseline, root)
+            : update;
+          sortMessages(messages, levels);
+          const groups = groupMessagesByLevel(messages, levels);
+          const policy = evaluatePolicy(groups, config);
+
+          if (policy.failed) {
+            const output = [formatText(groups, { ...config, ruleDocs }), ...formatPolicy(policy)];
+            logger.error(output.join('\n'));
+          }
+          report(createLintResult(policy, {
+            cwd: root,
+            ruleDocs,
+            displayLimit: config.displayLimit,
+          }));
+        },
+        onError(error) {
+          logger.error(`Lint watcher failed: ${error instanceof Error ? error.message : JSON.stringify(error)}`);
+        },
+      });
+      return () => watcher.close();
+    },
+  };
+}
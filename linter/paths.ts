@@ -0,0 +1,47 @@
+import * as path from 'path';
+
+/**
+ * @returns True if the file could be checked by the linter.
+ * @param filePath - file path to check.
+ */
+export const isLintable = (filePath: string): boolean =>
+  /\.tsx?$/.test(filePath) && !filePath.includes(`${path.sep}node_modules${path.sep}`);
+
+/**
+ * @returns True if the file is the target itself or is located inside the target directory.
+ * @param filePath - file path to check.
+ * @param targetPath - file or directory the linter was launched for.
+ */
+export function isInTarget(filePath: string, targetPath: string): boolean {
+  // If targetPath is current directory, every file is included
+  if (targetPath === '.') {
+    return true;
+  }
+
+  const resolvedTarget = path.resolve(targetPath);
+  const resolvedFile = path.resolve(filePath);
+
+  // If targetPath is a specific file, include only that file
+  if (targetPath.endsWith('.ts') || targetPath.endsWith('.tsx')) {
+    return resolvedFile === resolvedTarget;
+  }
+
+  // If targetPath is a directory, include only files in that directory
+  return resolvedFile.startsWith(resolvedTarget + path.sep) || resolvedFile.startsWith(resolvedTarget + '/');
+}
+
+/**
+ * @returns True if the file belongs to at least one of the targets.
+ * @param filePath - file path to check.
+ * @param targets - files or directories the linter was launched for.
+ */
+export function isInTargets(filePath: string, targets: string[]): boolean {
+  return targets.some(targetPath => isInTarget(filePath, targetPath));
+}
+
+//
+// Filter messages by target paths
+//
+export function filterMessagesByPath<T extends { filePath: string }>(messages: T[], targets: string[]): T[] {
+  return messages.filter(msg => isInTargets(msg.filePath, targets));
+}
@@ -0,0 +1,67 @@
+import type { ExitBehavior, LevelGroup, LinterConfig, LocatedLintMessage } from './types';
+
+/**
+ * State of a single priority level (or the uncategorized messages) after the run.
+ */
+export interface LevelResult {
+  name: string;
+  level: number | null;   // null for the uncategorized messages
+  issueCount: number;
+  errorCount: number;
+  maxIssues?: number;
+  exit: ExitBehavior;
+  exceeded: boolean;      // true if the budget was exceeded, or there are errors without a budget
+  messages: LocatedLintMessage[];
+}
+
+export interface PolicyResult {
+  /**
+   * True if at least one exceeded level has the "fail" exit behavior.
+   */
+  failed: boolean;
+  levels: LevelResult[];
+}
+
+/**
+ * Checks the messages against the per-level budgets and exit behaviors from the configuration.
+ * @param groups - messages grouped by priority level.
+ * @param config - linter configuration.
+ */
+export function evaluatePolicy(groups: LevelGroup[], config: LinterConfig): PolicyResult {
+  const results = groups.map(({ level: L, messages }): LevelResult => {
+    const { maxIssues, exit = 'fail' } = L || config.uncategorized || {};
+    const errorCount = messages.filter(m => m.severity === 2).length;
+    return {
+      name: L ? L.name : 'Uncategorized',
+      level: L ? L.level : null,
+      issueCount: messages.length,
+      errorCount,
+      maxIssues,
+      exit,
+      exceeded: maxIssues === undefined ? errorCount > 0 : messages.length > maxIssues,
+      messages,
+    };
+  });
+
+  return {
+    failed: results.some(r => r.exceeded && r.exit === 'fail'),
+    levels: results,
+  };
+}
+
+/**
+ * @returns Lines describing the exceeded levels, which do not have the "ignore" exit behavior.
+ * @param result - policy evaluation result.
+ */
+export function formatPolicy(result: PolicyResult): string[] {
+  return result.levels
+    .filter(r => r.exceeded && r.exit !== 'ignore')
+    .map((r) => {
+      const icon = r.exit === 'fail' ? '❌' : '⚠️';
+      const label = r.level === null ? r.name : `Level ${r.level}: ${r.name}`;
+      const limit = r.maxIssues === undefined
+        ? `${r.errorCount} errors`
+        : `${r.issueCount} issues, budget ${r.maxIssues}`;
+      return `${icon} ${label} — ${limit}`;
+    });
+}
@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESLint } from '@typescript-eslint/utils';
+import ts from 'typescript';
+
+import { readTSConfig } from '../typescript';
+import { linkTargets } from './linkTargets';
+import { routePages } from './routePages';
+import { DEFAULT_ROUTES_FILE, collectRoutes } from './routes';
+import { collectBemBlocks, uniqueBemBlocks } from './uniqueBemBlocks';
+
+/**
+ * ESLint plugin with the rules specific to this project.
+ */
+export const projectPlugin: TSESLint.FlatConfig.Plugin = {
+  meta: { name: 'project' },
+  rules: {
+    'link-targets': linkTargets,
+    'route-pages': routePages,
+    'unique-bem-blocks': uniqueBemBlocks,
+  },
+};
+
+/**
+ * Configuration enabling the project rules for the TypeScript sources. It is applied on top of
+ * eslint.config.js by the linter.
+ */
+export const projectRulesConfig: TSESLint.FlatConfig.Config = {
+  files: ['**/*.{ts,tsx}'],
+  plugins: { project: projectPlugin },
+  rules: {
+    'project/link-targets': 'error',
+    'project/route-pages': 'error',
+    'project/unique-bem-blocks': 'error',
+  },
+};
+
+/**
+ * @returns Hash of the project-wide state the rules read besides the linted file and its imports:
+ * the route paths and the BEM blocks of all project files. Results of the rules cannot be reused
+ * once it changes.
+ * @param cwd - project root.
+ */
+export function getProjectRulesState(cwd: string): string {
+  const parse = (fileName: string): ts.SourceFile =>
+    ts.createSourceFile(fileName, fs.readFileSync(fileName, 'utf8'), ts.ScriptTarget.Latest, true);
+
+  const routesFile = path.resolve(cwd, DEFAULT_ROUTES_FILE);
+  const routes = fs.existsSync(routesFile)
+    ? collectRoutes(parse(routesFile)).map(r => r.path)
+    : [];
+  const blocks = readTSConfig(cwd).fileNames
+    .flatMap(f => collectBemBlocks(parse(f)).map(block => `${block}:${path.relative(cwd, f)}`));
+
+  return createHash('sha1')
+    .update(JSON.stringify({ routes, blocks: blocks.sort() }))
+    .digest('hex');
+}
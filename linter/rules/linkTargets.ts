@@ -0,0 +1,83 @@
+import { AST_NODE_TYPES, ESLintUtils, type TSESTree } from '@typescript-eslint/utils';
+
+import { DEFAULT_ROUTES_FILE, getDeclaredRoutes, matchesRoute } from './routes';
+
+type Options = [{
+  routesFile?: string;
+  /**
+   * Components, whose `to` property is a route path.
+   */
+  components?: string[];
+}];
+
+/**
+ * @returns Static value of the `to` property, or undefined if it is computed.
+ */
+function getStaticTarget(attribute: TSESTree.JSXAttribute): string | undefined {
+  let value: TSESTree.Node | null = attribute.value;
+  if (value?.type === AST_NODE_TYPES.JSXExpressionContainer) {
+    value = value.expression;
+  }
+  if (value?.type === AST_NODE_TYPES.Literal && typeof value.value === 'string') {
+    return value.value;
+  }
+  if (value?.type === AST_NODE_TYPES.TemplateLiteral && !value.expressions.length) {
+    return value.quasis[0].value.cooked ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Reports absolute link targets, which do not match any path from the route table.
+ */
+export const linkTargets = ESLintUtils.RuleCreator.withoutDocs<Options, 'unknownRoute'>({
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Require Link targets to match a route declared in the route table',
+    },
+    messages: {
+      unknownRoute: 'Link target "{{ target }}" does not match any route declared in {{ routesFile }}',
+    },
+    schema: [{
+      type: 'object',
+      properties: {
+        routesFile: { type: 'string' },
+        components: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    }],
+  },
+  defaultOptions: [{}],
+  create(context, [options]) {
+    const routesFile = options.routesFile || DEFAULT_ROUTES_FILE;
+    const components = options.components || ['Link', 'Navigate'];
+
+    return {
+      JSXOpeningElement(node): void {
+        if (node.name.type !== AST_NODE_TYPES.JSXIdentifier || !components.includes(node.name.name)) {
+          return;
+        }
+        const attribute = node.attributes.find(
+          (a): a is TSESTree.JSXAttribute => a.type === AST_NODE_TYPES.JSXAttribute && a.name.name === 'to',
+        );
+        const target = attribute && getStaticTarget(attribute);
+
+        // Relative and external targets cannot be checked against the route table
+        if (!attribute || target === undefined || !target.startsWith('/') || target.startsWith('//')) {
+          return;
+        }
+        const pathname = target.split(/[?#]/)[0];
+        const routes = getDeclaredRoutes(context, routesFile);
+
+        if (routes.length && !routes.some(r => matchesRoute(r.path, pathname))) {
+          context.report({
+            node: attribute,
+            messageId: 'unknownRoute',
+            data: { target, routesFile },
+          });
+        }
+      },
+    };
+  },
+});
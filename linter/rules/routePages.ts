@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { ESLintUtils } from '@typescript-eslint/utils';
+import ts from 'typescript';
+
+import { DEFAULT_ROUTES_FILE, collectRoutes } from './routes';
+
+type Options = [{
+  routesFile?: string;
+  /**
+   * Name of the component every routed page has to render.
+   */
+  page?: string;
+}];
+
+/**
+ * @returns True if the subtree contains a JSX element with the given tag name.
+ */
+function rendersElement(node: ts.Node, tagName: string): boolean {
+  if (
+    (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node))
+    && node.tagName.getText() === tagName
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, child => rendersElement(child, tagName) || undefined) || false;
+}
+
+/**
+ * Reports components of the route table, which do not render the page wrapper. The wrapper
+ * controls the Telegram back button, so a page without it leaves the button in a stale state.
+ */
+export const routePages = ESLintUtils.RuleCreator.withoutDocs<Options, 'missingPage'>({
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Require every component from the route table to render the Page component',
+    },
+    messages: {
+      missingPage: 'Route component "{{ component }}" does not render <{{ page }}>',
+    },
+    schema: [{
+      type: 'object',
+      properties: {
+        routesFile: { type: 'string' },
+        page: { type: 'string' },
+      },
+      additionalProperties: false,
+    }],
+  },
+  defaultOptions: [{}],
+  create(context, [options]) {
+    const routesFile = path.resolve(context.cwd, options.routesFile || DEFAULT_ROUTES_FILE);
+    const page = options.page || 'Page';
+    if (path.resolve(context.filename) !== routesFile) {
+      return {};
+    }
+
+    // Component declarations are resolved by the type checker
+    const services = ESLintUtils.getParserServices(context, true);
+    if (!services.program) {
+      return {};
+    }
+    const { program } = services;
+    const checker = program.getTypeChecker();
+
+    return {
+      Program(): void {
+        const sourceFile = program.getSourceFile(routesFile);
+        if (!sourceFile) {
+          return;
+        }
+        for (const { component } of collectRoutes(sourceFile)) {
+          if (!component) {
+            continue;
+          }
+          let symbol = checker.getSymbolAtLocation(component);
+          if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+            symbol = checker.getAliasedSymbol(symbol);
+          }
+          const declaration = symbol?.valueDeclaration || symbol?.declarations?.[0];
+          if (
+            !declaration
+            || declaration.getSourceFile().isDeclarationFile
+            || rendersElement(declaration, page)
+          ) {
+            continue;
+          }
+          context.report({
+            node: services.tsNodeToESTreeNodeMap.get(component),
+            messageId: 'missingPage',
+            data: { component: component.text, page },
+          });
+        }
+      },
+    };
+  },
+});
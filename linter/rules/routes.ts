@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TSESLint } from '@typescript-eslint/utils';
+import ts from 'typescript';
+
+export const DEFAULT_ROUTES_FILE = 'src/navigation/routes.tsx';
+
+export interface DeclaredRoute {
+  /**
+   * Route path, as declared in the route table.
+   */
+  path: string;
+  /**
+   * Node of the component rendered by the route.
+   */
+  component?: ts.Identifier;
+}
+
+/**
+ * @returns Expression with type assertions, `satisfies` and parentheses removed.
+ */
+function unwrap(node: ts.Expression): ts.Expression {
+  while (
+    ts.isAsExpression(node)
+    || ts.isSatisfiesExpression(node)
+    || ts.isParenthesizedExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Collects the routes, declared as object literals of the `routes` array.
+ * @param sourceFile - file declaring the route table.
+ */
+export function collectRoutes(sourceFile: ts.SourceFile): DeclaredRoute[] {
+  const routes: DeclaredRoute[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isVariableDeclaration(node)
+      && ts.isIdentifier(node.name)
+      && node.name.text === 'routes'
+      && node.initializer
+    ) {
+      const array = unwrap(node.initializer);
+      if (ts.isArrayLiteralExpression(array)) {
+        for (const element of array.elements) {
+          if (ts.isObjectLiteralExpression(element)) {
+            const route = toRoute(element);
+            if (route) {
+              routes.push(route);
+            }
+          }
+        }
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return routes;
+}
+
+function toRoute(node: ts.ObjectLiteralExpression): DeclaredRoute | undefined {
+  let routePath: string | undefined;
+  let component: ts.Identifier | undefined;
+
+  for (const property of node.properties) {
+    if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) {
+      continue;
+    }
+    const value = unwrap(property.initializer);
+    if (property.name.text === 'path' && ts.isStringLiteralLike(value)) {
+      routePath = value.text;
+    } else if (property.name.text === 'Component' && ts.isIdentifier(value)) {
+      component = value;
+    }
+  }
+  return routePath === undefined ? undefined : { path: routePath, component };
+}
+
+const routesByProgram = new WeakMap<ts.Program, Map<string, DeclaredRoute[]>>();
+
+/**
+ * @returns Routes declared in the routes file. The file is taken from the type-checked program
+ * when available, otherwise it is read from disk.
+ * @param context - rule context.
+ * @param routesFile - path to the routes file, relative to the working directory.
+ */
+export function getDeclaredRoutes(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  routesFile: string,
+): DeclaredRoute[] {
+  const fileName = path.resolve(context.cwd, routesFile);
+  const program = context.sourceCode.parserServices?.program;
+
+  let cache = program ? routesByProgram.get(program) : undefined;
+  const cached = cache?.get(fileName);
+  if (cached) {
+    return cached;
+  }
+
+  let sourceFile = program?.getSourceFile(fileName);
+  if (!sourceFile) {
+    if (!fs.existsSync(fileName)) {
+      return [];
+    }
+    sourceFile = ts.createSourceFile(fileName, fs.readFileSync(fileName, 'utf8'), ts.ScriptTarget.Latest, true);
+  }
+
+  const routes = collectRoutes(sourceFile);
+  if (program) {
+    if (!cache) {
+      cache = new Map();
+      routesByProgram.set(program, cache);
+    }
+    cache.set(fileName, routes);
+  }
+  return routes;
+}
+
+/**
+ * @returns True if the pathname matches the route path. Supports `:param` segments, optional
+ * `:param?` segments and the trailing `*` splat, as React Router does.
+ * @param routePath - declared route path.
+ * @param pathname - link target without the query and the hash.
+ */
+export function matchesRoute(routePath: string, pathname: string): boolean {
+  const split = (p: string): string[] => p.split('/').filter(Boolean);
+  const pattern = split(routePath);
+  const segments = split(pathname);
+
+  for (let i = 0; i < pattern.length; i++) {
+    const part = pattern[i];
+    if (part === '*') {
+      return true;
+    }
+    if (i >= segments.length) {
+      return pattern.slice(i).every(p => p.startsWith(':') && p.endsWith('?'));
+    }
+    if (!part.startsWith(':') && part !== segments[i]) {
+      return false;
+    }
+  }
+  return pattern.length === segments.length;
+}
@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { AST_NODE_TYPES, ESLintUtils } from '@typescript-eslint/utils';
+import ts from 'typescript';
+
+type Options = [{
+  /**
+   * Name of the function creating BEM blocks.
+   */
+  functionName?: string;
+}];
+
+/**
+ * @returns Names of the blocks declared in the file, in the order of declaration.
+ * @param sourceFile - file to scan.
+ * @param functionName - name of the function creating BEM blocks.
+ */
+export function collectBemBlocks(sourceFile: ts.SourceFile, functionName = 'bem'): string[] {
+  const blocks: string[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node)
+      && ts.isIdentifier(node.expression)
+      && node.expression.text === functionName
+      && node.arguments.length
+      && ts.isStringLiteralLike(node.arguments[0])
+    ) {
+      blocks.push(node.arguments[0].text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return blocks;
+}
+
+const blocksByProgram = new WeakMap<ts.Program, Map<string, Map<string, string[]>>>();
+
+/**
+ * @returns Map from block name to files of the program, declaring it. Files are listed once per
+ * declaration.
+ */
+function getBlockDeclarations(program: ts.Program, functionName: string): Map<string, string[]> {
+  let byFunction = blocksByProgram.get(program);
+  if (!byFunction) {
+    byFunction = new Map();
+    blocksByProgram.set(program, byFunction);
+  }
+  const cached = byFunction.get(functionName);
+  if (cached) {
+    return cached;
+  }
+
+  const blocks = new Map<string, string[]>();
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('/node_modules/')) {
+      continue;
+    }
+    for (const block of collectBemBlocks(sourceFile, functionName)) {
+      blocks.set(block, [...blocks.get(block) || [], path.resolve(sourceFile.fileName)]);
+    }
+  }
+  byFunction.set(functionName, blocks);
+  return blocks;
+}
+
+/**
+ * Reports BEM block names, which are declared more than once. Equal block names lead to
+ * conflicting CSS class names.
+ */
+export const uniqueBemBlocks = ESLintUtils.RuleCreator.withoutDocs<Options, 'duplicateBlock' | 'duplicateInFile'>({
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Require BEM block names to be unique across the project',
+    },
+    messages: {
+      duplicateBlock: 'BEM block "{{ block }}" is also declared in {{ files }}',
+      duplicateInFile: 'BEM block "{{ block }}" is already declared in this file',
+    },
+    schema: [{
+      type: 'object',
+      properties: {
+        functionName: { type: 'string' },
+      },
+      additionalProperties: false,
+    }],
+  },
+  defaultOptions: [{}],
+  create(context, [options]) {
+    const functionName = options.functionName || 'bem';
+    const fileName = path.resolve(context.filename);
+    // Without type information, only duplicates within the file are reported
+    const { program } = ESLintUtils.getParserServices(context, true);
+    const seen = new Set<string>();
+
+    return {
+      CallExpression(node): void {
+        const [argument] = node.arguments;
+        if (
+          node.callee.type !== AST_NODE_TYPES.Identifier
+          || node.callee.name !== functionName
+          || argument?.type !== AST_NODE_TYPES.Literal
+          || typeof argument.value !== 'string'
+        ) {
+          return;
+        }
+        const block = argument.value;
+
+        if (seen.has(block)) {
+          context.report({ node: argument, messageId: 'duplicateInFile', data: { block } });
+          return;
+        }
+        seen.add(block);
+
+        const others = program
+          ? (getBlockDeclarations(program, functionName).get(block) || []).filter(f => f !== fileName)
+          : [];
+        if (others.length) {
+          const files = [...new Set(others)]
+            .map(f => path.relative(context.cwd, f).split(path.sep).join('/'))
+            .join(', ');
+          context.report({ node: argument, messageId: 'duplicateBlock', data: { block, files } });
+        }
+      },
+    };
+  },
+});
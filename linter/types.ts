@@ -0,0 +1,167 @@
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+//
+// Configuration interfaces
+//
+
+/**
+ * What a failed level does to the run: "fail" makes it exit with the non-zero code, "warn" only
+ * prints a warning, "ignore" does not affect the run at all.
+ */
+export type ExitBehavior = 'fail' | 'warn' | 'ignore';
+
+export interface LevelPolicy {
+  maxIssues?: number;     // issues allowed before the level fails, by default any error fails it
+  exit?: ExitBehavior;    // behavior of the failed level, "fail" by default
+}
+
+export interface PriorityLevel extends LevelPolicy {
+  level: number;        // number, the smaller the higher priority
+  name: string;         // level name, for example "Critical"
+  rules: string[];      // list of ruleId, falling into this level
+  files?: string[];     // globs relative to the project root, the level is limited to
+}
+
+/**
+ * Documentation of a rule, printed along with its diagnostics.
+ */
+export interface RuleDoc {
+  url?: string;         // page describing the rule
+  hint?: string;        // short explanation of how to fix the issue
+}
+
+export interface LinterConfig {
+  priorityLevels: PriorityLevel[];
+  /**
+   * Policy for messages which do not fall into any priority level.
+   */
+  uncategorized?: LevelPolicy;
+  /**
+   * Maximum number of messages printed per level in the text output. Defaults to 15.
+   */
+  displayLimit?: number;
+  /**
+   * Print all non-empty levels instead of the highest priority one only.
+   */
+  displayAllLevels?: boolean;
+  /**
+   * Path to the baseline file with known issues, relative to the project root.
+   * Defaults to "lint-baseline.json".
+   */
+  baseline?: string;
+  /**
+   * Documentation by ESLint rule id or TypeScript code, for example "TS2554". Entries are merged
+   * with the built-in documentation of the default rules.
+   */
+  ruleDocs?: Record<string, RuleDoc>;
+}
+
+//
+// Diagnostics
+//
+export interface ESLintMessage {
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  source: 'eslint';
+}
+
+/**
+ * Additional location which helps to understand the diagnostic, for example the declaration
+ * the error refers to.
+ */
+export interface RelatedInformation {
+  filePath: string;
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+export interface TypeScriptMessage {
+  code: string;
+  severity: number;
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  source: 'typescript';
+  filePath: string;
+  relatedInformation?: RelatedInformation[];
+}
+
+export type LintMessage = ESLintMessage | TypeScriptMessage;
+
+/**
+ * Message from any source, bound to the file it was reported for.
+ */
+export type LocatedLintMessage = LintMessage & { filePath: string };
+
+/**
+ * Supported output formats of the linter.
+ */
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'github';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'sarif', 'github'];
+
+/**
+ * @returns Rule identifier of the message: ESLint rule id or TypeScript error code.
+ * @param message - message to get rule identifier of.
+ */
+export function getRuleId(message: LintMessage): string | null {
+  return message.source === 'typescript' ? message.code : message.ruleId;
+}
+
+/**
+ * @returns Priority level the message falls into, or undefined if it is uncategorized. Levels
+ * limited to specific files are skipped for messages from other files.
+ * @param levels - priority levels to search in.
+ * @param message - message to find level for.
+ */
+export function findPriorityLevel(
+  levels: PriorityLevel[],
+  message: LocatedLintMessage,
+): PriorityLevel | undefined {
+  const ruleId = getRuleId(message);
+  if (!ruleId) {
+    return;
+  }
+  const relativePath = path.relative(process.cwd(), path.resolve(message.filePath))
+    .split(path.sep)
+    .join('/');
+
+  return levels.find(L => L.rules.includes(ruleId)
+    && (!L.files || L.files.some(glob => minimatch(relativePath, glob, { dot: true }))));
+}
+
+/**
+ * Messages of a priority level, or the uncategorized messages.
+ */
+export interface LevelGroup {
+  level?: PriorityLevel;  // undefined for the uncategorized messages
+  messages: LocatedLintMessage[];
+}
+
+/**
+ * @returns Groups of the messages: one per priority level in the order of the levels, followed by
+ * the group of the uncategorized messages. Groups may be empty. Messages keep their order inside
+ * the groups.
+ * @param messages - messages to group.
+ * @param levels - configured priority levels, sorted by level.
+ */
+export function groupMessagesByLevel(messages: LocatedLintMessage[], levels: PriorityLevel[]): LevelGroup[] {
+  const uncategorized: LevelGroup = { messages: [] };
+  const groups = new Map(levels.map((level): [PriorityLevel, LevelGroup] => [level, { level, messages: [] }]));
+  for (const m of messages) {
+    const L = findPriorityLevel(levels, m);
+    (L && groups.get(L) || uncategorized).messages.push(m);
+  }
+  return [...groups.values(), uncategorized];
+}
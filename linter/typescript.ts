@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+import type { RelatedInformation, TypeScriptMessage } from './types';
+
+/**
+ * Reads and parses the TypeScript project configuration.
+ * @param cwd - directory to start the tsconfig.json lookup from.
+ * @throws {Error} If the configuration could not be found or contains errors.
+ */
+export function readTSConfig(cwd: string): ts.ParsedCommandLine {
+  const configFile = ts.findConfigFile(cwd, fileName => ts.sys.fileExists(fileName), 'tsconfig.json');
+  if (!configFile) {
+    throw new Error(`Could not find tsconfig.json starting from ${cwd}`);
+  }
+
+  const result = ts.readConfigFile(configFile, fileName => ts.sys.readFile(fileName));
+  if (result.error) {
+    throw new Error(ts.flattenDiagnosticMessageText(result.error.messageText, '\n'));
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(result.config, ts.sys, path.dirname(configFile));
+  if (parsed.errors.length) {
+    throw new Error(ts.flattenDiagnosticMessageText(parsed.errors[0].messageText, '\n'));
+  }
+  return parsed;
+}
+
+/**
+ * @returns Location of the diagnostic span in 1-based lines and columns.
+ * @param file - file the diagnostic belongs to.
+ * @param start - span start offset.
+ * @param length - span length.
+ */
+function toLocation(file: ts.SourceFile, start: number, length: number): {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+} {
+  const from = file.getLineAndCharacterOfPosition(start);
+  const to = file.getLineAndCharacterOfPosition(start + length);
+  return {
+    line: from.line + 1,
+    column: from.character + 1,
+    endLine: to.line + 1,
+    endColumn: to.character + 1,
+  };
+}
+
+/**
+ * Converts a compiler diagnostic to the lint message. Diagnostics which are not bound to
+ * a file (global options errors, for example) are skipped.
+ * @param diagnostic - diagnostic to convert.
+ */
+export function toTypeScriptMessage(diagnostic: ts.Diagnostic): TypeScriptMessage | undefined {
+  const { file, start, length = 0 } = diagnostic;
+  if (!file || start === undefined) {
+    return;
+  }
+  if (
+    diagnostic.category !== ts.DiagnosticCategory.Error
+    && diagnostic.category !== ts.DiagnosticCategory.Warning
+  ) {
+    return;
+  }
+
+  const relatedInformation = (diagnostic.relatedInformation || [])
+    .reduce<RelatedInformation[]>((acc, info) => {
+      if (info.file && info.start !== undefined) {
+        acc.push({
+          filePath: path.normalize(info.file.fileName),
+          message: ts.flattenDiagnosticMessageText(info.messageText, '\n'),
+          ...toLocation(info.file, info.start, info.length || 0),
+        });
+      }
+      return acc;
+    }, []);
+
+  return {
+    code: `TS${diagnostic.code}`,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 2 : 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    ...toLocation(file, start, length),
+    source: 'typescript',
+    filePath: path.normalize(file.fileName),
+    ...(relatedInformation.length ? { relatedInformation } : {}),
+  };
+}
+
+/**
+ * Converts compiler diagnostics to the lint messages, skipping the ones not bound to a file.
+ * @param diagnostics - diagnostics to convert.
+ */
+export function toTypeScriptMessages(diagnostics: readonly ts.Diagnostic[]): TypeScriptMessage[] {
+  return diagnostics.reduce<TypeScriptMessage[]>((acc, d) => {
+    const message = toTypeScriptMessage(d);
+    if (message) {
+      acc.push(message);
+    }
+    return acc;
+  }, []);
+}
+
+/**
+ * Type-checks the whole project using the compiler API, the same way `tsc --noEmit` does.
+ * @param cwd - project root directory.
+ */
+export function getTypeScriptDiagnostics(cwd: string): TypeScriptMessage[] {
+  // Always use project-wide compilation to respect tsconfig.json settings
+  const { fileNames, options } = readTSConfig(cwd);
+  const program = ts.createProgram({
+    rootNames: fileNames,
+    options: { ...options, noEmit: true },
+  });
+
+  return toTypeScriptMessages(ts.getPreEmitDiagnostics(program));
+}
+
+/**
+ * Type-checks the whole project, reusing the state of the previous run from the build info file,
+ * the same way `tsc --noEmit --incremental` does. Only the changed files and the files depending
+ * on the changed exported types are checked again.
+ * @param cwd - project root directory.
+ * @param buildInfoFile - absolute path to the build info file, created if missing.
+ */
+export function getIncrementalTypeScriptDiagnostics(cwd: string, buildInfoFile: string): TypeScriptMessage[] {
+  const { fileNames, options } = readTSConfig(cwd);
+  const builder = ts.createIncrementalProgram({
+    rootNames: fileNames,
+    options: { ...options, noEmit: true, incremental: true, tsBuildInfoFile: buildInfoFile },
+  });
+
+  const diagnostics = [
+    ...builder.getConfigFileParsingDiagnostics(),
+    ...builder.getOptionsDiagnostics(),
+    ...builder.getGlobalDiagnostics(),
+    ...builder.getSyntacticDiagnostics(),
+    ...builder.getSemanticDiagnostics(),
+  ];
+
+  // Writes only the build info, as emitting is disabled
+  fs.mkdirSync(path.dirname(buildInfoFile), { recursive: true });
+  builder.emit();
+
+  return toTypeScriptMessages(diagnostics);
+}
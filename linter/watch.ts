@@ -0,0 +1,157 @@
+import * as path from 'path';
+import { ESLint } from 'eslint';
+import ts from 'typescript';
+
+import { createESLint, toESLintFileResults, type ESLintFileResult } from './eslint';
+import { isInTargets, isLintable } from './paths';
+import { getProjectRulesState } from './rules';
+import type { LocatedLintMessage, TypeScriptMessage } from './types';
+import { toTypeScriptMessages } from './typescript';
+
+/**
+ * Diagnostics state after a re-check.
+ */
+export interface LintUpdate {
+  /**
+   * All current messages for the targets.
+   */
+  messages: LocatedLintMessage[];
+  /**
+   * Files which were re-checked during this update.
+   */
+  checkedFiles: string[];
+}
+
+export interface LintWatcherOptions {
+  cwd: string;
+  targets: string[];
+  fix: boolean;
+  onUpdate: (update: LintUpdate) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface LintWatcher {
+  close: () => void;
+}
+
+/**
+ * Starts the persistent lint process. The TypeScript watch program tracks the file system and
+ * reports the files affected by every change (the changed files and the files depending on their
+ * exported types). Only those files are type-checked and passed to ESLint again, while results
+ * for all other files are reused. A change of the state the project rules read, such as the route
+ * table, makes ESLint lint all targets again. The ESLint instance is kept alive too, so its configuration and
+ * the typed linting project stay warm between updates.
+ * @param options - watcher options.
+ */
+export function createLintWatcher(options: LintWatcherOptions): LintWatcher {
+  const { cwd, targets, fix, onUpdate, onError = console.error } = options;
+
+  const configFile = ts.findConfigFile(cwd, fileName => ts.sys.fileExists(fileName), 'tsconfig.json');
+  if (!configFile) {
+    throw new Error(`Could not find tsconfig.json starting from ${cwd}`);
+  }
+
+  const eslint = createESLint({ cwd, fix });
+  const eslintByFile = new Map<string, ESLintFileResult>();
+  let tsMessages: TypeScriptMessage[] = [];
+  // Project rules read the route table and the BEM blocks of all files, so a change of them
+  // affects the files which do not import the changed one
+  let rulesState: string | undefined;
+  let closed = false;
+
+  // ESLint runs are asynchronous while TypeScript reports synchronously, so updates are queued
+  // to never let an outdated run overwrite the results of a newer one.
+  let queue = Promise.resolve();
+
+  const lint = async (files: string[], knownFiles: Set<string>, all: boolean): Promise<void> => {
+    let results: ESLint.LintResult[];
+    if (all) {
+      results = await eslint.lintFiles(targets);
+    } else {
+      results = [];
+      // Sequential order matters: the changed file goes first, so its dependents are linted
+      // against its new content.
+      for (const file of files) {
+        if (isLintable(file) && isInTargets(file, targets) && !await eslint.isPathIgnored(file)) {
+          results.push(...await eslint.lintFiles([file]));
+        }
+      }
+    }
+    if (fix) {
+      await ESLint.outputFixes(results);
+    }
+    for (const result of toESLintFileResults(results)) {
+      eslintByFile.set(path.normalize(result.filePath), result);
+    }
+
+    // Forget the files which were removed from the project.
+    for (const file of eslintByFile.keys()) {
+      if (!knownFiles.has(file)) {
+        eslintByFile.delete(file);
+      }
+    }
+
+    if (closed) {
+      return;
+    }
+
+    const messages: LocatedLintMessage[] = tsMessages.filter(m => isInTargets(m.filePath, targets));
+    for (const result of eslintByFile.values()) {
+      for (const message of result.messages) {
+        messages.push({ ...message, filePath: result.filePath });
+      }
+    }
+    onUpdate({ messages, checkedFiles: files.filter(f => isInTargets(f, targets)) });
+  };
+
+  const host = ts.createWatchCompilerHost(
+    configFile,
+    { noEmit: true },
+    ts.sys,
+    ts.createSemanticDiagnosticsBuilderProgram,
+    () => {}, // Configuration errors are reported via the program diagnostics.
+    () => {},
+  );
+
+  host.afterProgramCreate = (builder): void => {
+    const program = builder.getProgram();
+    const knownFiles = new Set(program.getSourceFiles().map(f => path.normalize(f.fileName)));
+
+    // Only semantic diagnostics of the affected files are recomputed, the builder caches
+    // the rest.
+    const affected = new Set<string>();
+    let next: ts.AffectedFileResult<readonly ts.Diagnostic[]>;
+    while ((next = builder.getSemanticDiagnosticsOfNextAffectedFile())) {
+      if (next.affected === program) {
+        knownFiles.forEach(f => affected.add(f));
+      } else {
+        affected.add(path.normalize((next.affected as ts.SourceFile).fileName));
+      }
+    }
+
+    tsMessages = toTypeScriptMessages([
+      ...builder.getConfigFileParsingDiagnostics(),
+      ...builder.getOptionsDiagnostics(),
+      ...builder.getGlobalDiagnostics(),
+      ...builder.getSyntacticDiagnostics(),
+      ...builder.getSemanticDiagnostics(),
+    ]);
+
+    const files = [...affected];
+    const nextRulesState = getProjectRulesState(cwd);
+    const all = nextRulesState !== rulesState;
+    rulesState = nextRulesState;
+    queue = queue
+      .then(() => lint(files, knownFiles, all))
+      .catch(onError);
+  };
+
+  const watchProgram = ts.createWatchProgram(host);
+
+  return {
+    close(): void {
+      closed = true;
+      watchProgram.close();
+    },
+  };
+}
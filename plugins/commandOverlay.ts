@@ -0,0 +1,309 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { Logger, Plugin, WebSocketClient } from 'vite';
+
+import type { CommandReport, OverlayDiagnostic } from '../src/devtools/commandOverlay/protocol';
+
+/**
+ * Report of a command run, without the command name, which the plugin adds itself.
+ */
+export type CommandResult = Omit<CommandReport, 'command'>;
+
+/**
+ * Result of a finished child process.
+ */
+export interface CommandOutput {
+  /**
+   * Exit code, or null if the process was terminated by a signal.
+   */
+  code: number | null;
+  /**
+   * Combined stdout and stderr with the ANSI escape sequences removed.
+   */
+  output: string;
+}
+
+export interface CommandContext {
+  /**
+   * Project root.
+   */
+  root: string;
+  logger: Logger;
+}
+
+/**
+ * Command executed in a child process when the matching files change.
+ */
+export interface SpawnCommand {
+  name: string;
+  /**
+   * Shell command to run, for example "npx tsc --noEmit".
+   */
+  command: string;
+  /**
+   * Globs relative to the project root. Changes of the matching files start the command.
+   */
+  files: string[];
+  /**
+   * Delay in milliseconds to wait for more changes before running the command. Defaults to the
+   * plugin `debounce` option.
+   */
+  debounce?: number;
+  /**
+   * Run the command when the dev server starts. Defaults to true.
+   */
+  runOnStart?: boolean;
+  /**
+   * Converts the command output to the report. By default, the command fails with a non-zero
+   * exit code and its output is shown as is.
+   */
+  parse?: (output: CommandOutput, context: CommandContext) => CommandResult;
+}
+
+/**
+ * Long-running command, which tracks the changes itself and reports every result, for example
+ * an in-process watcher.
+ */
+export interface WatchCommand {
+  name: string;
+  /**
+   * Starts the command.
+   * @returns Function stopping the command.
+   */
+  watch: (report: (result: CommandResult) => void, context: CommandContext) => () => void;
+}
+
+export type OverlayCommand = SpawnCommand | WatchCommand;
+
+export interface CommandOverlayOptions {
+  commands: OverlayCommand[];
+  /**
+   * Default debounce of the spawned commands in milliseconds. Defaults to 300.
+   */
+  debounce?: number;
+  /**
+   * What happens when all commands pass again after a failure. "hmr" only hides the overlay and
+   * leaves updating the page to the hot module replacement, "full" reloads the page.
+   * Defaults to "hmr".
+   */
+  reload?: 'hmr' | 'full';
+}
+
+/**
+ * Matches ANSI escape sequences, such as colors and cursor movements.
+ */
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[ -/]*[@-~]`, 'g');
+
+/**
+ * Runs the shell command in its own process group, so aborting it terminates the whole process
+ * tree and not only the shell.
+ * @param command - shell command.
+ * @param cwd - working directory.
+ * @param signal - signal aborting the run.
+ */
+function execute(command: string, cwd: string, signal: AbortSignal): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    const detached = process.platform !== 'win32';
+    const child = spawn(command, { cwd, shell: true, detached, env: { ...process.env, FORCE_COLOR: '0' } });
+    const chunks: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const abort = (): void => {
+      try {
+        if (detached && child.pid) {
+          process.kill(-child.pid, 'SIGTERM');
+        } else {
+          child.kill();
+        }
+      } catch {
+        // The process has already exited
+      }
+    };
+    signal.addEventListener('abort', abort, { once: true });
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      signal.removeEventListener('abort', abort);
+      resolve({ code, output: Buffer.concat(chunks).toString('utf8').replace(ANSI_PATTERN, '') });
+    });
+  });
+}
+
+const defaultParse = ({ code, output }: CommandOutput): CommandResult => ({
+  failed: code !== 0,
+  levels: [],
+  errorCount: code === 0 ? 0 : 1,
+  warningCount: 0,
+  output,
+});
+
+/**
+ * Parses the output of `tsc --pretty false` into diagnostics with code frames. Output without
+ * diagnostics, such as a crash, is reported as is.
+ * @param output - command output.
+ * @param context - command context.
+ */
+export function parseTscOutput(output: CommandOutput, context: CommandContext): CommandResult {
+  const diagnostics: OverlayDiagnostic[] = [];
+  for (const match of output.output.matchAll(/^(.+)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/gm)) {
+    const [, file, line, column, severity, code, message] = match;
+    const filePath = path.resolve(context.root, file);
+    const lineNumber = Number(line);
+    let lines: string[] = [];
+    try {
+      lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    } catch {
+      // The file was removed after the run
+    }
+    const start = Math.max(lineNumber - 3, 0);
+
+    diagnostics.push({
+      severity: severity === 'error' ? 'error' : 'warning',
+      ruleId: code,
+      source: 'TypeScript',
+      message,
+      filePath,
+      relativePath: path.relative(context.root, filePath).split(path.sep).join('/'),
+      line: lineNumber,
+      column: Number(column),
+      codeFrame: lines
+        .slice(start, Math.min(lineNumber + 2, lines.length))
+        .map((text, i) => ({ line: start + i + 1, text })),
+    });
+  }
+
+  if (!diagnostics.length) {
+    return defaultParse(output);
+  }
+  return {
+    failed: output.code !== 0,
+    levels: [{
+      level: null,
+      name: 'TypeScript',
+      exceeded: output.code !== 0,
+      issueCount: diagnostics.length,
+      diagnostics,
+    }],
+    errorCount: diagnostics.filter(d => d.severity === 'error').length,
+    warningCount: diagnostics.filter(d => d.severity === 'warning').length,
+  };
+}
+
+/**
+ * Creates the runner of the spawned command. Changes arriving within the debounce interval
+ * start a single run, and a change arriving during the run cancels it and starts a new one.
+ */
+function createRunner(
+  command: SpawnCommand,
+  debounce: number,
+  context: CommandContext,
+  report: (result: CommandResult) => void,
+): { trigger: () => void; close: () => void } {
+  const parse = command.parse || defaultParse;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | undefined;
+
+  const run = async (): Promise<void> => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+    try {
+      const output = await execute(command.command, context.root, current.signal);
+      if (!current.signal.aborted) {
+        report(parse(output, context));
+      }
+    } catch (error: unknown) {
+      if (!current.signal.aborted) {
+        report(defaultParse({ code: null, output: error instanceof Error ? error.message : JSON.stringify(error) }));
+      }
+    } finally {
+      if (controller === current) {
+        controller = undefined;
+      }
+    }
+  };
+
+  return {
+    trigger(): void {
+      clearTimeout(timer);
+      timer = setTimeout(() => void run(), debounce);
+    },
+    close(): void {
+      clearTimeout(timer);
+      controller?.abort();
+    },
+  };
+}
+
+/**
+ * Runs commands in the dev server and shows their failures in the in-app overlay from
+ * src/devtools/commandOverlay.
+ * @param options - plugin options.
+ */
+export function commandOverlay(options: CommandOverlayOptions): Plugin {
+  const { commands, debounce = 300, reload = 'hmr' } = options;
+
+  return {
+    name: 'command-overlay',
+    apply: 'serve',
+    configureServer(server): void {
+      const context: CommandContext = { root: server.config.root, logger: server.config.logger };
+      const reports = new Map<string, CommandReport>();
+
+      const report = (name: string, result: CommandResult): void => {
+        const hadFailures = [...reports.values()].some(r => r.failed);
+        const commandReport: CommandReport = { ...result, command: name };
+        reports.set(name, commandReport);
+        server.ws.send('command-overlay:report', commandReport);
+
+        if (result.failed) {
+          context.logger.error(result.levels.length
+            ? `[${name}] failed: ${result.errorCount} errors, ${result.warningCount} warnings`
+            : `[${name}] failed\n${result.output || ''}`);
+        } else if (hadFailures && reload === 'full' && ![...reports.values()].some(r => r.failed)) {
+          server.ws.send({ type: 'full-reload' });
+        }
+      };
+
+      // The overlay asks for the current state when the page is (re)loaded
+      server.ws.on('command-overlay:request', (_data, client: WebSocketClient) => {
+        for (const commandReport of reports.values()) {
+          client.send('command-overlay:report', commandReport);
+        }
+      });
+
+      const stops: (() => void)[] = [];
+      const runners: { files: string[]; trigger: () => void }[] = [];
+      for (const command of commands) {
+        if ('watch' in command) {
+          stops.push(command.watch(result => report(command.name, result), context));
+          continue;
+        }
+        const runner = createRunner(
+          command,
+          command.debounce ?? debounce,
+          context,
+          result => report(command.name, result),
+        );
+        runners.push({ files: command.files, trigger: runner.trigger });
+        stops.push(runner.close);
+        if (command.runOnStart !== false) {
+          runner.trigger();
+        }
+      }
+
+      server.watcher.on('all', (_event, file) => {
+        const relativePath = path.relative(context.root, file).split(path.sep).join('/');
+        for (const runner of runners) {
+          if (runner.files.some(glob => minimatch(relativePath, glob, { dot: true }))) {
+            runner.trigger();
+          }
+        }
+      });
+      server.httpServer?.on('close', () => stops.forEach(stop => stop()));
+    },
+  };
+}
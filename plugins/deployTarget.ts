@@ -0,0 +1,93 @@
+import type { Plugin, UserConfig } from 'vite';
+
+export interface DeployTarget {
+  /**
+   * Public base path of the application, for example "/reactjs-template/".
+   */
+  base: string;
+  /**
+   * Origin the application is served from, for example "https://telegram-mini-apps.github.io".
+   * May be omitted for targets served by the dev server, which uses its own origin.
+   */
+  origin?: string;
+  /**
+   * Application name, used as the page title and in the TON Connect manifest.
+   */
+  appName: string;
+  /**
+   * Direct link of the Mini App in Telegram, for example "https://t.me/my_bot/my_app". Used to
+   * create the links sharing the application pages.
+   */
+  miniAppUrl?: string;
+}
+
+export interface ResolvedDeployTarget extends DeployTarget {
+  /**
+   * Target name, the key of the targets configuration.
+   */
+  name: string;
+}
+
+/**
+ * Environment variable selecting the deployment target.
+ */
+export const DEPLOY_TARGET_ENV = 'DEPLOY_TARGET';
+
+/**
+ * Helps to type the deployment targets configuration.
+ * @param targets - targets by name.
+ */
+export function defineDeployTargets<T extends Record<string, DeployTarget>>(targets: T): T {
+  return targets;
+}
+
+/**
+ * Selects the deployment target by the DEPLOY_TARGET environment variable. Without it, the dev
+ * server uses the "local" target and the build uses the "github-pages" one, which the template is
+ * published to.
+ * @param targets - targets by name.
+ * @param options - resolution options.
+ * @throws {Error} If the selected target is not configured.
+ */
+export function resolveDeployTarget(targets: Record<string, DeployTarget>, options: {
+  command: 'serve' | 'build';
+  env: Record<string, string | undefined>;
+}): ResolvedDeployTarget {
+  const name = options.env[DEPLOY_TARGET_ENV] || (options.command === 'serve' ? 'local' : 'github-pages');
+  const target = Object.prototype.hasOwnProperty.call(targets, name) ? targets[name] : undefined;
+  if (!target) {
+    throw new Error(`Unknown deploy target "${name}". Expected one of: ${Object.keys(targets).join(', ')}`);
+  }
+
+  // Base must start and end with the slash, origin must not end with it
+  const base = `/${target.base.replace(/^\/+|\/+$/g, '')}/`.replace(/^\/\/$/, '/');
+  return {
+    ...target,
+    name,
+    base,
+    origin: target.origin?.replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Applies the deployment target: sets the base path, exposes the target to the application as
+ * `import.meta.env.VITE_DEPLOY_TARGET`, `VITE_APP_NAME`, `VITE_PUBLIC_ORIGIN` and
+ * `VITE_MINI_APP_URL`.
+ * @param target - resolved deployment target.
+ */
+export function deployTarget(target: ResolvedDeployTarget): Plugin {
+  return {
+    name: 'deploy-target',
+    config(): UserConfig {
+      return {
+        base: target.base,
+        define: {
+          'import.meta.env.VITE_DEPLOY_TARGET': JSON.stringify(target.name),
+          'import.meta.env.VITE_APP_NAME': JSON.stringify(target.appName),
+          'import.meta.env.VITE_PUBLIC_ORIGIN': JSON.stringify(target.origin || ''),
+          'import.meta.env.VITE_MINI_APP_URL': JSON.stringify(target.miniAppUrl || ''),
+        },
+      };
+    },
+  };
+}
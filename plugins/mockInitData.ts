@@ -0,0 +1,192 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type { IncomingMessage } from 'http';
+import * as path from 'path';
+import type { Plugin } from 'vite';
+
+export interface MockInitDataOptions {
+  /**
+   * Token of the local test bot, which the backend validates the init data with.
+   */
+  botToken?: string;
+  /**
+   * Path to the PEM file with the Ed25519 private key used for the "signature" field, relative to
+   * the project root. Without it, the field contains a placeholder.
+   */
+  privateKeyFile?: string;
+}
+
+/**
+ * Path of the endpoint signing the init data, relative to the base.
+ */
+export const MOCK_INIT_DATA_PATH = '__mock-init-data';
+
+/**
+ * Maximum size of the request body in bytes. Mocked init data fields take about a kilobyte.
+ */
+const MAX_BODY_SIZE = 16 * 1024;
+
+//
+// Signing
+//
+
+/**
+ * @returns Data-check-string: "key=value" pairs of the fields sorted by key and joined with the line
+ * feed.
+ * @param fields - init data fields.
+ */
+function toDataCheckString(fields: [string, string][]): string {
+  return fields
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+}
+
+/**
+ * @returns Ed25519 private key and its public key in the hex format, in which Telegram publishes
+ * its keys.
+ * @param pem - private key in the PEM format.
+ * @throws {Error} If the key is not an Ed25519 one.
+ */
+export function readEd25519Key(pem: string): { privateKey: crypto.KeyObject; publicKeyHex: string } {
+  const privateKey = crypto.createPrivateKey(pem);
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Expected an Ed25519 private key, got ${privateKey.asymmetricKeyType}`);
+  }
+  const { x } = crypto.createPublicKey(privateKey).export({ format: 'jwk' });
+  return { privateKey, publicKeyHex: Buffer.from(x || '', 'base64url').toString('hex') };
+}
+
+/**
+ * Creates the init data signed the same way Telegram signs it. The "hash" field is computed with the
+ * bot token and the "signature" field with the Ed25519 key, if it is specified.
+ * @see https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ * @returns Init data in the raw format, as it is passed in the "tgWebAppData" launch parameter.
+ * @param data - init data fields, except auth_date, hash and signature. Objects are serialized to
+ * JSON.
+ * @param options - signing options.
+ */
+export function signInitData(data: Record<string, unknown>, options: {
+  botToken: string;
+  privateKey?: crypto.KeyObject;
+  authDate?: Date;
+}): string {
+  const { botToken, privateKey, authDate = new Date() } = options;
+  const fields: [string, string][] = [['auth_date', String(Math.floor(authDate.getTime() / 1000))]];
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined && value !== null && !['auth_date', 'hash', 'signature'].includes(key)) {
+      fields.push([key, typeof value === 'string' ? value : JSON.stringify(value)]);
+    }
+  }
+
+  // The signature is checked with the bot id only, so the third parties can validate init data
+  // without the bot token
+  const botId = botToken.split(':')[0];
+  const signature = privateKey
+    ? crypto
+      .sign(null, Buffer.from(`${botId}:WebAppData\n${toDataCheckString(fields)}`), privateKey)
+      .toString('base64url')
+    : 'some-signature';
+  fields.push(['signature', signature]);
+
+  const secretKey = crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const hash = crypto.createHmac('sha256', secretKey).update(toDataCheckString(fields)).digest('hex');
+  fields.push(['hash', hash]);
+
+  return new URLSearchParams(fields).toString();
+}
+
+//
+// Plugin
+//
+
+/**
+ * @returns True if the request comes from the local machine, or from a page served by the dev
+ * server itself. The dev server may listen on all interfaces, while the endpoint signs with the
+ * bot token.
+ * @param req - incoming request.
+ */
+function isAllowedRequest(req: IncomingMessage): boolean {
+  const address = req.socket.remoteAddress || '';
+  if (address === '::1' || /^(::ffff:)?127\./.test(address)) {
+    return true;
+  }
+
+  // HTTP/2 requests of the HTTPS mode have the ":authority" pseudo-header instead of "host"
+  const authority = req.headers[':authority'];
+  const host = (typeof authority === 'string' ? authority : undefined) ?? req.headers.host;
+  const { origin } = req.headers;
+  if (!origin || !host) {
+    return false;
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serves the endpoint signing the init data of the mocked environment, so the backend validation
+ * passes with the local test bot token. The endpoint accepts POST requests with the JSON init data
+ * fields and responds with `{ initDataRaw }`. Without the bot token, it responds with 404 and the
+ * mocked environment uses the unsigned init data. Requests from other machines are accepted only
+ * from the pages of the dev server.
+ * @param options - plugin options.
+ */
+export function mockInitData(options: MockInitDataOptions): Plugin {
+  return {
+    name: 'mock-init-data',
+    apply: 'serve',
+    configureServer(server): void {
+      const { botToken, privateKeyFile } = options;
+      const { logger } = server.config;
+      let key: ReturnType<typeof readEd25519Key> | undefined;
+      if (privateKeyFile) {
+        key = readEd25519Key(fs.readFileSync(path.resolve(server.config.root, privateKeyFile), 'utf8'));
+        logger.info(`Mock init data is signed with the Ed25519 public key ${key.publicKeyHex}`);
+      }
+      const endpoint = `${server.config.base}${MOCK_INIT_DATA_PATH}`;
+
+      server.middlewares.use((req, res, next) => {
+        if (req.url?.split('?')[0] !== endpoint || req.method !== 'POST') {
+          return next();
+        }
+        if (!botToken) {
+          res.statusCode = 404;
+          return res.end('Bot token is not configured');
+        }
+        if (!isAllowedRequest(req)) {
+          res.statusCode = 403;
+          return res.end('Only local and same-origin requests are allowed');
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+          // The rest of the oversized body is read and dropped, so the response can be sent
+          size += chunk.length;
+          if (size <= MAX_BODY_SIZE) {
+            chunks.push(chunk);
+          }
+        });
+        req.on('end', () => {
+          if (size > MAX_BODY_SIZE) {
+            res.statusCode = 413;
+            return res.end(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+          }
+          try {
+            const data = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({
+              initDataRaw: signInitData(data, { botToken, privateKey: key?.privateKey }),
+            }));
+          } catch (e) {
+            res.statusCode = 400;
+            res.end(e instanceof Error ? e.message : String(e));
+          }
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TLSSocket } from 'tls';
+import type { Plugin } from 'vite';
+
+import type { ResolvedDeployTarget } from './deployTarget';
+
+/**
+ * TON Connect manifest, see https://docs.ton.org/develop/dapps/ton-connect/manifest.
+ */
+export interface TonConnectManifest {
+  url: string;
+  name: string;
+  iconUrl: string;
+  termsOfUseUrl?: string;
+  privacyPolicyUrl?: string;
+}
+
+/**
+ * Manifest fields which do not depend on the deployment target. URLs are either absolute or
+ * relative to the application URL, for example "tonconnect-icon.png".
+ */
+export interface TonConnectManifestConfig {
+  /**
+   * Application name shown in the wallet. Defaults to the deployment target application name.
+   */
+  name?: string;
+  /**
+   * Application icon, PNG or ICO, 180x180 pixels is recommended.
+   */
+  iconUrl: string;
+  termsOfUseUrl?: string;
+  privacyPolicyUrl?: string;
+}
+
+export interface TonConnectManifestOptions {
+  target: ResolvedDeployTarget;
+  manifest: TonConnectManifestConfig;
+  /**
+   * Manifest path relative to the base. Defaults to "tonconnect-manifest.json".
+   */
+  fileName?: string;
+}
+
+//
+// Manifest
+//
+
+/**
+ * @returns Manifest of the application served from the specified URL.
+ * @param config - manifest configuration.
+ * @param appUrl - application URL: origin and base.
+ * @param appName - application name used when the configuration does not specify it.
+ */
+export function createTonConnectManifest(
+  config: TonConnectManifestConfig,
+  appUrl: string,
+  appName: string,
+): TonConnectManifest {
+  const resolve = (url: string): string => {
+    try {
+      return new URL(url, appUrl).toString();
+    } catch {
+      // Left as is, the validation reports it
+      return url;
+    }
+  };
+
+  return {
+    url: appUrl,
+    name: config.name ?? appName,
+    iconUrl: resolve(config.iconUrl),
+    ...(config.termsOfUseUrl ? { termsOfUseUrl: resolve(config.termsOfUseUrl) } : {}),
+    ...(config.privacyPolicyUrl ? { privacyPolicyUrl: resolve(config.privacyPolicyUrl) } : {}),
+  };
+}
+
+function parseHttpUrl(value: string): URL | undefined {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : undefined;
+  } catch {
+    return;
+  }
+}
+
+/**
+ * Checks the manifest: required fields, absolute URLs, the application URL matching the deployment
+ * target and the existence of the icon. Icons outside the application are not checked.
+ * @returns List of problems, empty if the manifest is valid.
+ * @param manifest - manifest to check.
+ * @param options - target the manifest is created for and the public directory, where the icons
+ * served by the application are located.
+ */
+export function validateTonConnectManifest(manifest: TonConnectManifest, options: {
+  target: ResolvedDeployTarget;
+  publicDir: string;
+}): string[] {
+  const { target, publicDir } = options;
+  const problems: string[] = [];
+
+  for (const field of ['url', 'name', 'iconUrl'] as const) {
+    if (!manifest[field].trim()) {
+      problems.push(`"${field}" is required`);
+    }
+  }
+  for (const field of ['url', 'iconUrl', 'termsOfUseUrl', 'privacyPolicyUrl'] as const) {
+    const value = manifest[field];
+    if (value && !parseHttpUrl(value)) {
+      problems.push(`"${field}" must be an absolute http(s) URL, got "${value}"`);
+    }
+  }
+
+  const appUrl = parseHttpUrl(manifest.url);
+  if (appUrl && (appUrl.origin !== target.origin || appUrl.pathname !== target.base)) {
+    problems.push(
+      `"url" (${manifest.url}) does not match the base "${target.base}" of the deploy target "${target.name}". `
+      + 'The target origin must not contain a path, use the base for it',
+    );
+  }
+
+  const iconUrl = parseHttpUrl(manifest.iconUrl);
+  if (iconUrl) {
+    if (!/\.(png|ico)$/i.test(iconUrl.pathname)) {
+      problems.push(`"iconUrl" must point to a PNG or ICO image, got "${manifest.iconUrl}"`);
+    }
+    if (appUrl && iconUrl.origin === appUrl.origin && iconUrl.pathname.startsWith(appUrl.pathname)) {
+      const iconFile = path.join(publicDir, decodeURIComponent(iconUrl.pathname.slice(appUrl.pathname.length)));
+      if (!publicDir || !fs.existsSync(iconFile)) {
+        problems.push(`"iconUrl" (${manifest.iconUrl}) does not exist in the public directory`);
+      }
+    }
+  }
+  return problems;
+}
+
+//
+// Plugin
+//
+
+/**
+ * Generates the TON Connect manifest of the deployment target. The dev server serves it with the
+ * origin of the request, so the manifest is valid in the HTTPS mode and on the network addresses.
+ * The build emits the manifest for the target origin and fails if it is invalid.
+ * @param options - plugin options.
+ */
+export function tonconnectManifest(options: TonConnectManifestOptions): Plugin {
+  const { target, manifest: config } = options;
+  const fileName = options.fileName ?? 'tonconnect-manifest.json';
+  let publicDir = '';
+
+  return {
+    name: 'tonconnect-manifest',
+    configResolved(resolved): void {
+      publicDir = resolved.publicDir;
+    },
+    configureServer(server): void {
+      const manifestPath = `${target.base}${fileName}`;
+
+      server.middlewares.use((req, res, next) => {
+        if (req.url?.split('?')[0] !== manifestPath) {
+          return next();
+        }
+        const protocol = (req.socket as TLSSocket).encrypted ? 'https' : 'http';
+        // HTTP/2 requests of the HTTPS mode have the ":authority" pseudo-header instead of "host"
+        const authority = req.headers[':authority'];
+        const host = (typeof authority === 'string' ? authority : undefined) ?? req.headers.host;
+        const origin = `${protocol}://${host}`;
+        const manifest = createTonConnectManifest(config, `${origin}${target.base}`, target.appName);
+
+        // Invalid manifest is still served in development, the build reports the problems anyway
+        const problems = validateTonConnectManifest(manifest, { target: { ...target, origin }, publicDir });
+        for (const problem of problems) {
+          server.config.logger.warn(`TON Connect manifest: ${problem}`, { timestamp: true });
+        }
+
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.end(JSON.stringify(manifest, null, 2));
+      });
+    },
+    generateBundle(): void {
+      if (!target.origin) {
+        this.error(`TON Connect manifest: the deploy target "${target.name}" has no origin`);
+      }
+      const manifest = createTonConnectManifest(config, `${target.origin}${target.base}`, target.appName);
+      const problems = validateTonConnectManifest(manifest, { target, publicDir });
+      if (problems.length) {
+        this.error(`Invalid TON Connect manifest:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+      }
+
+      this.emitFile({
+        type: 'asset',
+        fileName,
+        source: `${JSON.stringify(manifest, null, 2)}\n`,
+      });
+    },
+  };
+}
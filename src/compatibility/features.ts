@@ -0,0 +1,64 @@
+import { compareVersions } from '@/helpers/compareVersions.ts';
+
+export interface FeatureRequirement {
+  /**
+   * Human-readable feature name shown to the user.
+   */
+  title: string;
+  /**
+   * Minimum Mini Apps version (tgWebAppVersion) supporting the feature.
+   */
+  minVersion: string;
+}
+
+export interface MissingFeature extends FeatureRequirement {
+  name: FeatureName;
+}
+
+/**
+ * Mini Apps features with the versions they were introduced in. Add a feature here before
+ * requiring it in a route or in the requiredFeatures list.
+ */
+export const features = {
+  mainButton: { title: 'Main button', minVersion: '6.0' },
+  backButton: { title: 'Back button', minVersion: '6.1' },
+  hapticFeedback: { title: 'Haptic feedback', minVersion: '6.1' },
+  telegramLinks: { title: 'Opening Telegram links', minVersion: '6.1' },
+  popup: { title: 'Popups', minVersion: '6.2' },
+  qrScanner: { title: 'QR scanner', minVersion: '6.4' },
+  clipboard: { title: 'Clipboard', minVersion: '6.4' },
+  cloudStorage: { title: 'Cloud storage', minVersion: '6.9' },
+  settingsButton: { title: 'Settings button', minVersion: '6.10' },
+  secondaryButton: { title: 'Secondary button', minVersion: '7.10' },
+  fullscreen: { title: 'Fullscreen mode', minVersion: '8.0' },
+} satisfies Record<string, FeatureRequirement>;
+
+export type FeatureName = keyof typeof features;
+
+/**
+ * Features the whole application depends on. The application shows the unsupported environment
+ * screen in the clients not supporting any of them. Prefer requiring a feature in the routes using
+ * it, so the rest of the application keeps working in the older clients.
+ */
+export const requiredFeatures: FeatureName[] = [];
+
+/**
+ * @returns Features not supported by the client.
+ * @param names - required features.
+ * @param version - Mini Apps version supported by the client.
+ */
+export function findMissingFeatures(names: readonly FeatureName[], version: string): MissingFeature[] {
+  return names
+    .filter(name => compareVersions(version, features[name].minVersion) < 0)
+    .map(name => ({ name, ...features[name] }));
+}
+
+/**
+ * Error thrown when the client does not support the features required by the application.
+ */
+export class UnsupportedVersionError extends Error {
+  constructor(public readonly version: string, public readonly missing: MissingFeature[]) {
+    super(`Mini Apps ${version} does not support: ${missing.map(f => f.title).join(', ')}`);
+    this.name = 'UnsupportedVersionError';
+  }
+}
@@ -3,11 +3,14 @@ import { Navigate, Route, Routes, HashRouter } from 'react-router-dom';
 import { retrieveLaunchParams, useSignal, isMiniAppDark } from '@telegram-apps/sdk-react';
 import { AppRoot } from '@telegram-apps/telegram-ui';
 
-import { routes } from '@/navigation/routes.tsx';
+import { FeatureGate } from '@/components/FeatureGate.tsx';
+import { isDebug } from '@/helpers/isDebug.ts';
+import { getActiveRoutes } from '@/navigation/routes.tsx';
 
 export function App(): JSX.Element {
   const lp = useMemo(() => retrieveLaunchParams(), []);
   const isDark = useSignal(isMiniAppDark);
+  const debug = useMemo(() => isDebug(), []);
 
   return (
     <AppRoot
@@ -16,7 +19,13 @@ export function App(): JSX.Element {
     >
       <HashRouter>
         <Routes>
-          {routes.map((route) => <Route key={route.path} {...route} />)}
+          {getActiveRoutes(debug).map(({ path, Component, requires }) => (
+            <Route
+              key={path}
+              path={path}
+              element={<FeatureGate requires={requires}><Component/></FeatureGate>}
+            />
+          ))}
           <Route path="*" element={<Navigate to="/"/>}/>
         </Routes>
       </HashRouter>
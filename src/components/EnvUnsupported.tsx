@@ -1,8 +1,34 @@
 import { Placeholder, AppRoot } from '@telegram-apps/telegram-ui';
 import { retrieveLaunchParams, isColorDark, isRGB } from '@telegram-apps/sdk-react';
-import { useMemo } from 'react';
+import { type ReactNode, useMemo } from 'react';
 
-export function EnvUnsupported(): JSX.Element {
+import { UnsupportedVersionError } from '@/compatibility/features.ts';
+import { MissingFeatureList } from '@/components/MissingFeatureList.tsx';
+import { InitError } from '@/init.ts';
+
+function describeError(error: unknown): ReactNode {
+  if (error instanceof UnsupportedVersionError) {
+    return (
+      <>
+        Your Telegram client supports Mini Apps {error.version}. Update it to get the features this
+        application requires:
+        <MissingFeatureList missing={error.missing}/>
+      </>
+    );
+  }
+  if (error instanceof InitError) {
+    return `The application failed to initialize (${error.step.name}). Try to reopen it.`;
+  }
+  return 'The application could not read the launch parameters. Open it from Telegram, or update '
+    + 'Telegram if it is already opened there.';
+}
+
+export function EnvUnsupported({ error }: {
+  /**
+   * Error thrown while retrieving the launch parameters or initializing the application.
+   */
+  error?: unknown;
+}): JSX.Element {
   const [platform, isDark] = useMemo(() => {
     try {
       const lp = retrieveLaunchParams();
@@ -20,7 +46,7 @@ export function EnvUnsupported(): JSX.Element {
     >
       <Placeholder
         header="Oops"
-        description="You are using too old Telegram client to run this application"
+        description={describeError(error)}
       >
         <img
           alt="Telegram sticker"
@@ -30,4 +56,4 @@ export function EnvUnsupported(): JSX.Element {
       </Placeholder>
     </AppRoot>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import { Placeholder } from '@telegram-apps/telegram-ui';
+import type { PropsWithChildren } from 'react';
+
+import type { FeatureName } from '@/compatibility/features.ts';
+import { MissingFeatureList } from '@/components/MissingFeatureList.tsx';
+import { Page } from '@/components/Page.tsx';
+import { useMissingFeatures } from '@/hooks/useMissingFeatures.ts';
+
+/**
+ * Renders the children if the client supports the required features, and the list of the missing
+ * ones otherwise.
+ */
+export function FeatureGate({ requires, children }: PropsWithChildren<{
+  requires?: readonly FeatureName[];
+}>): JSX.Element {
+  const missing = useMissingFeatures(requires);
+  if (!missing.length) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Page>
+      <Placeholder
+        header="Update Telegram"
+        description={
+          <>
+            This page is not supported by your Telegram client. Update it to use:
+            <MissingFeatureList missing={missing}/>
+          </>
+        }
+      />
+    </Page>
+  );
+}
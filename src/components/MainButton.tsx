@@ -0,0 +1,54 @@
+import { onMainButtonClick, setMainButtonParams } from '@telegram-apps/sdk-react';
+import { useEffect } from 'react';
+
+import { useFeatureReady } from '@/hooks/useInitResult.ts';
+
+/**
+ * Shows the Telegram main button while the component is rendered, and hides it when the component
+ * is unmounted, for example when the page changes.
+ */
+export function MainButton({
+  text,
+  onClick,
+  loading = false,
+  disabled = false,
+  shine = false,
+}: {
+  text: string;
+  onClick: () => void;
+  /**
+   * True if the button shows the loader instead of the text.
+   */
+  loading?: boolean;
+  disabled?: boolean;
+  shine?: boolean;
+}): null {
+  // The main button is not mounted in the clients not supporting it.
+  const isReady = useFeatureReady('mainButton');
+
+  useEffect(() => {
+    if (isReady) {
+      setMainButtonParams({
+        text,
+        isEnabled: !disabled,
+        isLoaderVisible: loading,
+        hasShineEffect: shine,
+        isVisible: true,
+      });
+    }
+  }, [isReady, text, disabled, loading, shine]);
+
+  useEffect(() => {
+    if (isReady) {
+      return (): void => setMainButtonParams({ isVisible: false, isLoaderVisible: false });
+    }
+  }, [isReady]);
+
+  useEffect(() => {
+    if (isReady) {
+      return onMainButtonClick(onClick);
+    }
+  }, [isReady, onClick]);
+
+  return null;
+}
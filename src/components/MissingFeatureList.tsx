@@ -0,0 +1,13 @@
+import type { MissingFeature } from '@/compatibility/features.ts';
+
+export function MissingFeatureList({ missing }: { missing: MissingFeature[] }): JSX.Element {
+  return (
+    <ul style={{ margin: '8px 0 0', paddingLeft: '20px', textAlign: 'left' }}>
+      {missing.map(feature => (
+        <li key={feature.name}>
+          {feature.title} (Mini Apps {feature.minVersion})
+        </li>
+      ))}
+    </ul>
+  );
+}
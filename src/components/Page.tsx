@@ -2,6 +2,8 @@ import { useNavigate } from 'react-router-dom';
 import { hideBackButton, onBackButtonClick, showBackButton } from '@telegram-apps/sdk-react';
 import { type PropsWithChildren, useEffect } from 'react';
 
+import { useFeatureReady } from '@/hooks/useInitResult.ts';
+
 export function Page({ children, back = true }: PropsWithChildren<{
   /**
    * True if it is allowed to go back from this page.
@@ -9,8 +11,13 @@ export function Page({ children, back = true }: PropsWithChildren<{
   back?: boolean
 }>): JSX.Element {
   const navigate = useNavigate();
+  // The back button is not mounted in the clients not supporting it.
+  const isBackButtonReady = useFeatureReady('backButton');
 
   useEffect(() => {
+    if (!isBackButtonReady) {
+      return;
+    }
     if (back) {
       showBackButton();
       return onBackButtonClick(() => {
@@ -18,7 +25,7 @@ export function Page({ children, back = true }: PropsWithChildren<{
       });
     }
     hideBackButton();
-  }, [back, navigate]);
+  }, [back, navigate, isBackButtonReady]);
 
   return <>{children}</>;
 }
\ No newline at end of file
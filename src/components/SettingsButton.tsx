@@ -0,0 +1,28 @@
+import { hideSettingsButton, onSettingsButtonClick, showSettingsButton } from '@telegram-apps/sdk-react';
+import { useEffect } from 'react';
+
+import { useFeatureReady } from '@/hooks/useInitResult.ts';
+
+/**
+ * Shows the Telegram settings button while the component is rendered, and hides it when the
+ * component is unmounted, for example when the page changes.
+ */
+export function SettingsButton({ onClick }: { onClick: () => void }): null {
+  // The settings button is not mounted in the clients not supporting it.
+  const isReady = useFeatureReady('settingsButton');
+
+  useEffect(() => {
+    if (isReady) {
+      showSettingsButton();
+      return (): void => hideSettingsButton();
+    }
+  }, [isReady]);
+
+  useEffect(() => {
+    if (isReady) {
+      return onSettingsButtonClick(onClick);
+    }
+  }, [isReady, onClick]);
+
+  return null;
+}
@@ -0,0 +1,34 @@
+import { shareURL } from '@telegram-apps/sdk-react';
+import { Cell, Section } from '@telegram-apps/telegram-ui';
+import { type FC, useCallback } from 'react';
+
+import { useMissingFeatures } from '@/hooks/useMissingFeatures.ts';
+import { createShareLink, type DeepLinkPath } from '@/navigation/deepLinks.ts';
+
+/**
+ * Section sharing the route to the Telegram chats with the deep link opening it. It is not rendered
+ * if the deployment target has no Mini App link, or the client does not support Telegram links.
+ */
+export const ShareSection: FC<{
+  path: DeepLinkPath;
+  /**
+   * Text sent along with the link.
+   */
+  text?: string;
+}> = ({ path, text }) => {
+  const [missing] = useMissingFeatures(['telegramLinks']);
+
+  const share = useCallback(() => {
+    shareURL(createShareLink(path), text);
+  }, [path, text]);
+
+  if (missing || !import.meta.env.VITE_MINI_APP_URL) {
+    return null;
+  }
+
+  return (
+    <Section footer="Shared link opens the Mini App on this page">
+      <Cell onClick={share}>Share</Cell>
+    </Section>
+  );
+};
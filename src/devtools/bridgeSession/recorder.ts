@@ -0,0 +1,82 @@
+import { mockTelegramEnv, on, retrieveRawLaunchParams } from '@telegram-apps/sdk-react';
+
+import { BRIDGE_SESSION_VERSION, type BridgeSession } from '@/devtools/bridgeSession/session.ts';
+
+export interface BridgeRecorder {
+  session: BridgeSession;
+  /**
+   * Downloads the session as a JSON file.
+   */
+  download: () => void;
+  /**
+   * Copies the session JSON to the clipboard, for the clients where downloads do not work.
+   */
+  copy: () => Promise<void>;
+  /**
+   * Stops recording.
+   */
+  stop: () => void;
+}
+
+/**
+ * Starts recording the launch parameters and every Mini Apps method call and event with
+ * timestamps. The recorder is available as `window.bridgeRecorder`, so the session can be exported
+ * from the console, for example the Eruda one: `bridgeRecorder.download()`.
+ *
+ * Note that the session contains the init data of the current user.
+ */
+export function startBridgeRecorder(): BridgeRecorder {
+  const start = performance.now();
+  const session: BridgeSession = {
+    version: BRIDGE_SESSION_VERSION,
+    recordedAt: new Date().toISOString(),
+    launchParams: retrieveRawLaunchParams(),
+    entries: [],
+  };
+  let isRecording = true;
+
+  const record = (type: 'method' | 'event', name: string, payload: unknown): void => {
+    if (isRecording) {
+      session.entries.push({
+        type,
+        name,
+        ...(payload === undefined ? {} : { payload }),
+        time: Math.round(performance.now() - start),
+      });
+    }
+  };
+
+  // Wraps the current method calls implementation, the calls are still sent to Telegram
+  mockTelegramEnv({
+    onEvent([method, params], next) {
+      record('method', method, params);
+      next();
+    },
+  });
+  const stopEvents = on('*', ([event, payload]) => record('event', event, payload));
+
+  const toJSON = (): string => JSON.stringify(session, null, 2);
+  const recorder: BridgeRecorder = {
+    session,
+    download() {
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([toJSON()], { type: 'application/json' }));
+      link.download = `bridge-session-${session.recordedAt.replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    },
+    copy() {
+      return navigator.clipboard.writeText(toJSON());
+    },
+    stop() {
+      isRecording = false;
+      stopEvents();
+    },
+  };
+
+  window.bridgeRecorder = recorder;
+  console.info(
+    '⏺️ Bridge session is being recorded. Run bridgeRecorder.download() or bridgeRecorder.copy() in the console to export it.',
+  );
+  return recorder;
+}
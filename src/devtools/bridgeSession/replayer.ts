@@ -0,0 +1,69 @@
+import { emitEvent } from '@telegram-apps/sdk-react';
+
+import type { BridgeSession, BridgeSessionEntry } from '@/devtools/bridgeSession/session.ts';
+import type { OnEvent } from '@/devtools/shared.ts';
+
+function getReqId(payload: unknown): string | undefined {
+  const reqId = (payload as { req_id?: unknown } | undefined)?.req_id;
+  return typeof reqId === 'string' ? reqId : undefined;
+}
+
+/**
+ * Creates the handler of the Mini Apps method calls, which feeds the recorded session back to the
+ * application. The events recorded before the first method call are emitted right away. When the
+ * application calls a method, the next recorded call of the same method is found, and the events
+ * recorded after it are emitted with the recorded delays. Request identifiers of the recorded
+ * responses are replaced with the ones the application uses.
+ * @returns Handler for the mockTelegramEnv function.
+ * @param session - recorded session.
+ * @param onCall - function called with every method call before handling it.
+ */
+export function createReplayHandler(
+  session: BridgeSession,
+  onCall?: (method: string, params: unknown) => void,
+): OnEvent {
+  const { entries } = session;
+  // Recorded request identifiers mapped to the ones of the current run
+  const reqIds = new Map<string, string>();
+  let cursor = 0;
+
+  const emitEvents = (from: number, since: number): void => {
+    for (let i = from; i < entries.length && entries[i].type === 'event'; i++) {
+      const { name, payload, time }: BridgeSessionEntry = entries[i];
+      const reqId = getReqId(payload);
+      setTimeout(() => {
+        const data = reqId && reqIds.has(reqId)
+          ? { ...payload as object, req_id: reqIds.get(reqId) }
+          : payload;
+        emitEvent(name, data);
+      }, time - since);
+    }
+  };
+
+  const firstMethod = entries.findIndex(e => e.type === 'method');
+  emitEvents(0, 0);
+  cursor = firstMethod === -1 ? entries.length : firstMethod;
+
+  return ([method, params]) => {
+    onCall?.(method, params);
+    const index = entries.findIndex((e, i) => i >= cursor && e.type === 'method' && e.name === method);
+    if (index === -1) {
+      console.warn(`🎞️ Method "${method}" is not called in the rest of the recorded session`, params);
+      return;
+    }
+    const skipped = entries.slice(cursor, index).filter(e => e.type === 'method');
+    if (skipped.length) {
+      console.warn(
+        `🎞️ Replay diverged from the recorded session, skipped calls: ${skipped.map(e => e.name).join(', ')}`,
+      );
+    }
+
+    const recordedReqId = getReqId(entries[index].payload);
+    const reqId = getReqId(params);
+    if (recordedReqId && reqId) {
+      reqIds.set(recordedReqId, reqId);
+    }
+    cursor = index + 1;
+    emitEvents(cursor, entries[index].time);
+  };
+}
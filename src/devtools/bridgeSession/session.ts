@@ -0,0 +1,50 @@
+/**
+ * Mini Apps method call or event captured during the session.
+ */
+export interface BridgeSessionEntry {
+  type: 'method' | 'event';
+  /**
+   * Method or event name, for example "web_app_request_theme" or "theme_changed".
+   */
+  name: string;
+  payload?: unknown;
+  /**
+   * Milliseconds since the recording started.
+   */
+  time: number;
+}
+
+/**
+ * Communication of the application with the Telegram client, recorded by the bridge recorder.
+ */
+export interface BridgeSession {
+  version: typeof BRIDGE_SESSION_VERSION;
+  /**
+   * ISO date of the recording start.
+   */
+  recordedAt: string;
+  /**
+   * Raw launch parameters the application was launched with.
+   */
+  launchParams: string;
+  entries: BridgeSessionEntry[];
+}
+
+export const BRIDGE_SESSION_VERSION = 1;
+
+/**
+ * Checks the session loaded from JSON.
+ * @returns The session.
+ * @param value - parsed JSON.
+ * @throws {Error} If the value is not a session of the supported version.
+ */
+export function parseBridgeSession(value: unknown): BridgeSession {
+  const session = value as Partial<BridgeSession> | null;
+  if (!session || typeof session !== 'object' || session.version !== BRIDGE_SESSION_VERSION) {
+    throw new Error(`Expected a bridge session of version ${BRIDGE_SESSION_VERSION}`);
+  }
+  if (typeof session.launchParams !== 'string' || !Array.isArray(session.entries)) {
+    throw new Error('Bridge session must contain the launch parameters and entries');
+  }
+  return session as BridgeSession;
+}
@@ -0,0 +1,284 @@
+import { createElement, createShadowHost } from '@/devtools/shared.ts';
+
+import type { CommandReport, OverlayDiagnostic, OverlayLevel } from './protocol';
+
+const STYLES = `
+:host {
+  all: initial;
+}
+.overlay {
+  position: fixed;
+  inset: 0;
+  z-index: 2147483647;
+  display: flex;
+  flex-direction: column;
+  background: rgba(16, 18, 24, 0.96);
+  color: #e6e6e6;
+  font: 13px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+}
+.header {
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 12px 16px;
+  padding-top: max(12px, env(safe-area-inset-top));
+  border-bottom: 1px solid #2c2f38;
+}
+.title {
+  flex: 1;
+  font-weight: 600;
+}
+.close {
+  border: 0;
+  border-radius: 6px;
+  padding: 6px 10px;
+  background: #2c2f38;
+  color: inherit;
+  font: inherit;
+}
+.body {
+  flex: 1;
+  overflow: auto;
+  padding: 8px 16px 24px;
+  -webkit-overflow-scrolling: touch;
+}
+.level {
+  margin: 16px 0 8px;
+  font-weight: 600;
+  color: #9aa4b5;
+}
+.level.exceeded {
+  color: #ff7a7a;
+}
+.diagnostic {
+  margin: 8px 0;
+  padding: 10px 12px;
+  border-radius: 8px;
+  background: #1d2029;
+  border-left: 3px solid #ffb454;
+}
+.diagnostic.error {
+  border-left-color: #ff5f5f;
+}
+.location {
+  display: inline-block;
+  padding: 0;
+  border: 0;
+  background: none;
+  color: #6cb6ff;
+  font: 12px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+  text-align: left;
+  text-decoration: underline;
+  word-break: break-all;
+  cursor: pointer;
+}
+.message {
+  margin: 4px 0;
+  white-space: pre-wrap;
+}
+.rule {
+  color: #9aa4b5;
+  font-size: 12px;
+}
+.frame {
+  margin: 8px 0 0;
+  padding: 8px 0;
+  overflow-x: auto;
+  border-radius: 6px;
+  background: #12141a;
+  font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace;
+}
+.frame-line {
+  display: block;
+  padding: 0 8px;
+  white-space: pre;
+}
+.frame-line.current {
+  background: rgba(255, 95, 95, 0.12);
+}
+.frame-number {
+  display: inline-block;
+  min-width: 3em;
+  margin-right: 8px;
+  color: #5c6370;
+  text-align: right;
+}
+mark {
+  background: none;
+  color: inherit;
+  text-decoration: underline wavy #ff5f5f;
+}
+.hint {
+  margin-top: 6px;
+  color: #c8d1e0;
+}
+.hint a {
+  color: #6cb6ff;
+}
+.command {
+  margin: 20px 0 4px;
+  font-size: 15px;
+  font-weight: 600;
+}
+.output {
+  margin: 8px 0 0;
+  padding: 8px;
+  overflow-x: auto;
+  border-radius: 6px;
+  background: #12141a;
+  font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace;
+  white-space: pre;
+}
+.more {
+  color: #9aa4b5;
+  font-style: italic;
+}
+`;
+
+/**
+ * Asks the dev server to open the file in the local editor. The endpoint is provided by Vite and
+ * launches the editor from the EDITOR environment variable, or the one it detects.
+ */
+function openInEditor({ filePath, line, column }: OverlayDiagnostic): void {
+  const file = encodeURIComponent(`${filePath}:${line}:${column}`);
+  void fetch(`${import.meta.env.BASE_URL}__open-in-editor?file=${file}`);
+}
+
+function renderCodeFrame(diagnostic: OverlayDiagnostic): HTMLElement {
+  const frame = createElement('pre', 'frame');
+  for (const { line, text } of diagnostic.codeFrame) {
+    const row = createElement('span', line === diagnostic.line ? 'frame-line current' : 'frame-line');
+    row.append(createElement('span', 'frame-number', String(line)));
+
+    if (line === diagnostic.line) {
+      // Highlight the span on its first line, multi-line spans till the end of the line
+      const start = diagnostic.column - 1;
+      const end = diagnostic.endLine === line && diagnostic.endColumn
+        ? Math.max(diagnostic.endColumn - 1, start + 1)
+        : diagnostic.endLine && diagnostic.endLine > line ? text.length : start + 1;
+      row.append(
+        text.slice(0, start),
+        createElement('mark', undefined, text.slice(start, end) || ' '),
+        text.slice(end),
+      );
+    } else {
+      row.append(text);
+    }
+    frame.append(row);
+  }
+  return frame;
+}
+
+function renderDiagnostic(diagnostic: OverlayDiagnostic): HTMLElement {
+  const element = createElement('div', `diagnostic ${diagnostic.severity}`);
+
+  const location = createElement(
+    'button',
+    'location',
+    `${diagnostic.relativePath}:${diagnostic.line}:${diagnostic.column}`,
+  );
+  location.type = 'button';
+  location.title = 'Open in editor';
+  location.addEventListener('click', () => openInEditor(diagnostic));
+
+  element.append(
+    location,
+    createElement('div', 'message', diagnostic.message),
+    createElement('div', 'rule', `${diagnostic.ruleId} (${diagnostic.source})`),
+  );
+  if (diagnostic.codeFrame.length) {
+    element.append(renderCodeFrame(diagnostic));
+  }
+
+  if (diagnostic.hint || diagnostic.url) {
+    const hint = createElement('div', 'hint', diagnostic.hint ? `💡 ${diagnostic.hint} ` : '');
+    if (diagnostic.url) {
+      const link = createElement('a', undefined, 'Documentation');
+      link.href = diagnostic.url;
+      link.target = '_blank';
+      link.rel = 'noreferrer';
+      hint.append(link);
+    }
+    element.append(hint);
+  }
+  return element;
+}
+
+function renderLevel(level: OverlayLevel): HTMLElement[] {
+  const title = level.level === null ? level.name : `Level ${level.level}: ${level.name}`;
+  const elements: HTMLElement[] = [
+    createElement('div', level.exceeded ? 'level exceeded' : 'level', `${title} (${level.issueCount} issues)`),
+    ...level.diagnostics.map(renderDiagnostic),
+  ];
+  const hidden = level.issueCount - level.diagnostics.length;
+  if (hidden > 0) {
+    elements.push(createElement('div', 'more', `…and ${hidden} more, see the dev server output`));
+  }
+  return elements;
+}
+
+function renderReport(report: CommandReport): HTMLElement[] {
+  const summary = report.levels.length
+    ? `${report.errorCount} errors, ${report.warningCount} warnings`
+    : 'failed';
+  const elements: HTMLElement[] = [createElement('div', 'command', `${report.command}: ${summary}`)];
+  if (report.levels.length) {
+    elements.push(...report.levels.flatMap(renderLevel));
+  } else if (report.output) {
+    elements.push(createElement('pre', 'output', report.output));
+  }
+  return elements;
+}
+
+/**
+ * Shows the failures of the dev server commands, such as the lint diagnostics, over the
+ * application.
+ */
+export function installCommandOverlay(): void {
+  const { hot } = import.meta;
+  if (!hot) {
+    return;
+  }
+
+  const { host, shadow } = createShadowHost('command-overlay', STYLES);
+  const reports = new Map<string, CommandReport>();
+  // Closing the overlay hides the current failures until any command reports again
+  let dismissed = false;
+
+  let overlay: HTMLElement | undefined;
+
+  const render = (): void => {
+    overlay?.remove();
+    const failed = [...reports.values()].filter(r => r.failed);
+    if (!failed.length || dismissed) {
+      host.remove();
+      return;
+    }
+
+    overlay = createElement('div', 'overlay');
+    const header = createElement('div', 'header');
+    const close = createElement('button', 'close', 'Close');
+    close.type = 'button';
+    close.addEventListener('click', () => {
+      dismissed = true;
+      render();
+    });
+    header.append(
+      createElement('div', 'title', `Failed: ${failed.map(r => r.command).join(', ')}`),
+      close,
+    );
+
+    const body = createElement('div', 'body');
+    body.append(...failed.flatMap(renderReport));
+    overlay.append(header, body);
+    shadow.append(overlay);
+    document.body.append(host);
+  };
+
+  hot.on('command-overlay:report', (report) => {
+    reports.set(report.command, report);
+    dismissed = false;
+    render();
+  });
+  hot.send('command-overlay:request');
+}
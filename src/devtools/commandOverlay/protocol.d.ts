@@ -0,0 +1,89 @@
+/**
+ * Messages exchanged between the command overlay plugin in the dev server and the in-app overlay.
+ * The file is a declaration file, so it is shared by the browser and Node.js projects without
+ * being built.
+ */
+
+export interface OverlayCodeFrameLine {
+  line: number;
+  text: string;
+}
+
+export interface OverlayDiagnostic {
+  severity: 'error' | 'warning';
+  ruleId: string;
+  /**
+   * Tool which reported the diagnostic, for example "ESLint".
+   */
+  source: string;
+  message: string;
+  /**
+   * Absolute file path, passed to the editor endpoint.
+   */
+  filePath: string;
+  /**
+   * File path relative to the project root, displayed to the user.
+   */
+  relativePath: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  /**
+   * Source lines around the diagnostic.
+   */
+  codeFrame: OverlayCodeFrameLine[];
+  hint?: string;
+  url?: string;
+}
+
+export interface OverlayLevel {
+  level: number | null;   // null for the uncategorized diagnostics
+  name: string;
+  /**
+   * True if the level exceeded its budget.
+   */
+  exceeded: boolean;
+  /**
+   * Total number of the level diagnostics, which may be more than the number of sent ones.
+   */
+  issueCount: number;
+  diagnostics: OverlayDiagnostic[];
+}
+
+/**
+ * Result of a single run of a command.
+ */
+export interface CommandReport {
+  /**
+   * Name of the command.
+   */
+  command: string;
+  /**
+   * True if the command failed. The overlay is shown only for failed commands.
+   */
+  failed: boolean;
+  /**
+   * Diagnostics grouped by priority level. Empty if the output could not be parsed.
+   */
+  levels: OverlayLevel[];
+  errorCount: number;
+  warningCount: number;
+  /**
+   * Raw command output, shown when there are no structured diagnostics.
+   */
+  output?: string;
+}
+
+declare module 'vite/types/customEvent.d.ts' {
+  interface CustomEventMap {
+    /**
+     * Result of a command, sent by the dev server after every run and on request.
+     */
+    'command-overlay:report': CommandReport;
+    /**
+     * Sent by the overlay when it starts, to receive the last reports of all commands.
+     */
+    'command-overlay:request': undefined;
+  }
+}
@@ -0,0 +1,264 @@
+import { emitEvent, type EventWithoutPayload } from '@telegram-apps/sdk-react';
+
+import { createElement, createShadowHost } from '@/devtools/shared.ts';
+import { mockThemes } from '@/mocks/profiles.ts';
+
+export interface MockPanel {
+  /**
+   * Adds the Mini Apps method call to the log.
+   */
+  logMethod: (method: string, params: unknown) => void;
+}
+
+interface PayloadPreset {
+  label: string;
+  payload: unknown;
+}
+
+/**
+ * Event with the editable payload.
+ */
+interface PayloadSection {
+  title: string;
+  event: 'theme_changed' | 'viewport_changed' | 'safe_area_changed' | 'content_safe_area_changed';
+  presets: PayloadPreset[];
+}
+
+const STYLES = `
+:host {
+  all: initial;
+}
+.toggle {
+  position: fixed;
+  right: 8px;
+  bottom: 96px;
+  z-index: 2147483646;
+  width: 40px;
+  height: 40px;
+  border: 0;
+  border-radius: 50%;
+  background: rgba(16, 18, 24, 0.85);
+  color: #e6e6e6;
+  font: 18px/1 sans-serif;
+  cursor: pointer;
+}
+.panel {
+  position: fixed;
+  right: 8px;
+  bottom: 144px;
+  z-index: 2147483646;
+  box-sizing: border-box;
+  width: min(340px, calc(100vw - 16px));
+  max-height: 70vh;
+  overflow: auto;
+  padding: 8px 12px 12px;
+  border-radius: 10px;
+  background: rgba(16, 18, 24, 0.96);
+  color: #e6e6e6;
+  font: 12px/1.45 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  -webkit-overflow-scrolling: touch;
+}
+.section-title {
+  margin: 10px 0 6px;
+  font-weight: 600;
+  color: #9aa4b5;
+}
+.buttons {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+}
+.button {
+  border: 0;
+  border-radius: 6px;
+  padding: 4px 8px;
+  background: #2c2f38;
+  color: inherit;
+  font: inherit;
+  cursor: pointer;
+}
+.button.primary {
+  background: #2f6fd1;
+}
+.payload {
+  box-sizing: border-box;
+  width: 100%;
+  height: 96px;
+  margin: 6px 0;
+  border: 1px solid #2c2f38;
+  border-radius: 6px;
+  padding: 6px;
+  background: #1d2029;
+  color: inherit;
+  font: 11px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+  resize: vertical;
+}
+.error {
+  color: #ff7a7a;
+}
+.log {
+  margin: 6px 0 0;
+  padding: 0;
+  list-style: none;
+  font: 11px/1.4 ui-monospace, SFMono-Regular, Menlo, monospace;
+}
+.log-entry {
+  padding: 2px 0;
+  border-bottom: 1px solid #2c2f38;
+  word-break: break-all;
+}
+.log-time {
+  color: #9aa4b5;
+}
+`;
+
+/**
+ * Maximum number of method calls kept in the log.
+ */
+const LOG_LIMIT = 100;
+
+const noInsets = { top: 0, bottom: 0, left: 0, right: 0 };
+
+const PAYLOAD_SECTIONS: PayloadSection[] = [
+  {
+    title: 'Theme',
+    event: 'theme_changed',
+    presets: Object.entries(mockThemes).map(([label, theme]) => ({
+      label,
+      payload: { theme_params: theme },
+    })),
+  },
+  {
+    title: 'Viewport',
+    event: 'viewport_changed',
+    presets: [
+      { label: 'iPhone', payload: { width: 390, height: 844, is_expanded: true, is_state_stable: true } },
+      { label: 'Android', payload: { width: 360, height: 800, is_expanded: true, is_state_stable: true } },
+      { label: 'Collapsed', payload: { width: 390, height: 480, is_expanded: false, is_state_stable: true } },
+    ],
+  },
+  {
+    title: 'Safe area',
+    event: 'safe_area_changed',
+    presets: [
+      { label: 'none', payload: noInsets },
+      { label: 'notch', payload: { ...noInsets, top: 47, bottom: 34 } },
+      { label: 'landscape', payload: { ...noInsets, left: 47, right: 47, bottom: 21 } },
+    ],
+  },
+  {
+    title: 'Content safe area',
+    event: 'content_safe_area_changed',
+    presets: [
+      { label: 'none', payload: noInsets },
+      { label: 'fullscreen', payload: { ...noInsets, top: 46 } },
+    ],
+  },
+];
+
+const BUTTON_EVENTS: EventWithoutPayload[] = [
+  'back_button_pressed',
+  'main_button_pressed',
+  'secondary_button_pressed',
+  'settings_button_pressed',
+];
+
+function createButton(text: string, onClick: () => void, className = 'button'): HTMLButtonElement {
+  const button = createElement('button', className, text);
+  button.type = 'button';
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * Resizes the page to the emitted viewport, so the application is laid out as in the Telegram
+ * client with the same screen size.
+ */
+function applyViewport(payload: unknown): void {
+  const { width, height } = payload as { width?: number; height?: number };
+  const { style } = document.body;
+  style.width = width ? `${width}px` : '';
+  style.height = height ? `${height}px` : '';
+  style.margin = width ? '0 auto' : '';
+  style.overflow = height ? 'auto' : '';
+}
+
+function renderPayloadSection(section: PayloadSection): HTMLElement[] {
+  const payload = createElement('textarea', 'payload');
+  payload.spellcheck = false;
+  payload.value = JSON.stringify(section.presets[0].payload, null, 2);
+  const error = createElement('div', 'error');
+
+  const emit = (): void => {
+    error.textContent = '';
+    let data: unknown;
+    try {
+      data = JSON.parse(payload.value);
+    } catch (e) {
+      error.textContent = e instanceof Error ? e.message : String(e);
+      return;
+    }
+    if (section.event === 'viewport_changed') {
+      applyViewport(data);
+    }
+    emitEvent(section.event as string, data);
+  };
+
+  const buttons = createElement('div', 'buttons');
+  buttons.append(
+    ...section.presets.map(preset => createButton(preset.label, () => {
+      payload.value = JSON.stringify(preset.payload, null, 2);
+      emit();
+    })),
+    createButton(`Emit ${section.event}`, emit, 'button primary'),
+  );
+  return [createElement('div', 'section-title', section.title), buttons, payload, error];
+}
+
+/**
+ * Installs the floating panel emitting the Telegram events with editable payloads: theme, viewport,
+ * safe areas and button presses. The panel also shows the log of the Mini Apps methods called by
+ * the application.
+ */
+export function installMockPanel(): MockPanel {
+  const { host, shadow } = createShadowHost('mock-panel', STYLES);
+  const panel = createElement('div', 'panel');
+  panel.hidden = true;
+
+  const log = createElement('ul', 'log');
+  const clearLog = createButton('Clear', () => log.replaceChildren());
+
+  const buttons = createElement('div', 'buttons');
+  buttons.append(...BUTTON_EVENTS.map(event => createButton(event, () => emitEvent(event))));
+
+  panel.append(
+    ...PAYLOAD_SECTIONS.flatMap(renderPayloadSection),
+    createElement('div', 'section-title', 'Buttons'),
+    buttons,
+    createElement('div', 'section-title', 'Called methods'),
+    clearLog,
+    log,
+  );
+
+  const toggle = createButton('🎛', () => {
+    panel.hidden = !panel.hidden;
+  }, 'toggle');
+  toggle.title = 'Telegram events';
+
+  shadow.append(toggle, panel);
+  document.body.append(host);
+
+  return {
+    logMethod(method, params): void {
+      const entry = createElement('li', 'log-entry');
+      entry.append(
+        createElement('span', 'log-time', `${new Date().toLocaleTimeString()} `),
+        `${method}${params === undefined ? '' : ` ${JSON.stringify(params)}`}`,
+      );
+      log.prepend(entry);
+      while (log.children.length > LOG_LIMIT) {
+        log.lastElementChild?.remove();
+      }
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { mockTelegramEnv } from '@telegram-apps/sdk-react';
+
+/**
+ * Handler of the Mini Apps method calls, accepted by the mockTelegramEnv function.
+ */
+export type OnEvent = NonNullable<NonNullable<Parameters<typeof mockTelegramEnv>[0]>['onEvent']>;
+
+/**
+ * @returns Element with the specified class name and text content.
+ */
+export function createElement<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  className?: string,
+  text?: string,
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+  if (className) {
+    element.className = className;
+  }
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  return element;
+}
+
+/**
+ * Creates the host element of the dev UI with the open shadow root containing the styles. The
+ * shadow root isolates the UI from the application styles. The host is not attached to the
+ * document.
+ * @param id - host element identifier.
+ * @param styles - CSS of the shadow root.
+ */
+export function createShadowHost(id: string, styles: string): { host: HTMLDivElement; shadow: ShadowRoot } {
+  const host = createElement('div');
+  host.id = id;
+  const shadow = host.attachShadow({ mode: 'open' });
+  shadow.append(createElement('style', undefined, styles));
+  return { host, shadow };
+}
@@ -0,0 +1,17 @@
+/**
+ * @returns Negative number if the version a is lower than b, positive if it is greater, 0 if they
+ * are equal.
+ * @param a - version, for example "7.10".
+ * @param b - version to compare with.
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff) {
+      return diff;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,10 @@
+import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
+
+/**
+ * @returns True if the application runs in debug mode: in development, or when it is launched with
+ * the start parameter containing "platformer_debug".
+ */
+export function isDebug(): boolean {
+  return (retrieveLaunchParams().tgWebAppStartParam || '').includes('platformer_debug')
+    || import.meta.env.DEV;
+}
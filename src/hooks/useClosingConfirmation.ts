@@ -0,0 +1,20 @@
+import { disableClosingConfirmation, enableClosingConfirmation } from '@telegram-apps/sdk-react';
+import { useEffect } from 'react';
+
+import { useFeatureReady } from '@/hooks/useInitResult.ts';
+
+/**
+ * Asks the user to confirm closing the application while the component is rendered, for example
+ * while a form has unsaved changes.
+ * @param enabled - false to allow closing without the confirmation.
+ */
+export function useClosingConfirmation(enabled = true): void {
+  const isReady = useFeatureReady('closingBehavior');
+
+  useEffect(() => {
+    if (isReady && enabled) {
+      enableClosingConfirmation();
+      return (): void => disableClosingConfirmation();
+    }
+  }, [isReady, enabled]);
+}
@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react';
+
+import type { InitFeature, InitResult, InitStepResult } from '@/init.ts';
+
+/**
+ * Results of the init function, provided at the application root.
+ */
+export const InitResultContext = createContext<InitResult | undefined>(undefined);
+
+/**
+ * @returns Results of all init steps.
+ */
+export function useInitResult(): InitResult {
+  const result = useContext(InitResultContext);
+  if (!result) {
+    throw new Error('useInitResult must be used inside InitResultContext.Provider');
+  }
+  return result;
+}
+
+/**
+ * @returns Result of the init step of the feature.
+ * @param feature - feature name.
+ */
+export function useInitStep(feature: InitFeature): InitStepResult {
+  return useInitResult()[feature];
+}
+
+/**
+ * @returns True if the feature is initialized and can be used.
+ * @param feature - feature name.
+ */
+export function useFeatureReady(feature: InitFeature): boolean {
+  return useInitStep(feature).status === 'ready';
+}
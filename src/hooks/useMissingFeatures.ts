@@ -0,0 +1,18 @@
+import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
+import { useMemo } from 'react';
+
+import { type FeatureName, findMissingFeatures, type MissingFeature } from '@/compatibility/features.ts';
+
+/**
+ * @returns Features not supported by the current client.
+ * @param names - required features.
+ */
+export function useMissingFeatures(names: readonly FeatureName[] = []): MissingFeature[] {
+  const version = useMemo(() => retrieveLaunchParams().tgWebAppVersion, []);
+  // The names are compared by value, so the callers may pass inline arrays.
+  const key = names.join(',');
+  return useMemo(
+    () => findMissingFeatures(key ? key.split(',') as FeatureName[] : [], version),
+    [key, version],
+  );
+}
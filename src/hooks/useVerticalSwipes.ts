@@ -0,0 +1,21 @@
+import { disableVerticalSwipes, enableVerticalSwipes } from '@telegram-apps/sdk-react';
+import { useEffect } from 'react';
+
+import { useFeatureReady } from '@/hooks/useInitResult.ts';
+
+/**
+ * Controls whether the vertical swipe collapses or closes the application while the component is
+ * rendered. Disable the swipes on the pages with vertical gestures, such as drawing or sliders. The
+ * swipes are enabled again when the component is unmounted.
+ * @param enabled - false to disable the vertical swipes.
+ */
+export function useVerticalSwipes(enabled: boolean): void {
+  const isReady = useFeatureReady('swipeBehavior');
+
+  useEffect(() => {
+    if (isReady && !enabled) {
+      disableVerticalSwipes();
+      return (): void => enableVerticalSwipes();
+    }
+  }, [isReady, enabled]);
+}
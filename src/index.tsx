@@ -7,12 +7,16 @@ import { retrieveLaunchParams } from '@telegram-apps/sdk-react';
 
 import { Root } from '@/components/Root.tsx';
 import { EnvUnsupported } from '@/components/EnvUnsupported.tsx';
+import { findMissingFeatures, requiredFeatures, UnsupportedVersionError } from '@/compatibility/features.ts';
 import { init } from '@/init.ts';
+import { isDebug } from '@/helpers/isDebug.ts';
+import { InitResultContext } from '@/hooks/useInitResult.ts';
+import { openStartParamRoute } from '@/navigation/deepLinks.ts';
 
 import './index.css';
 
 // Mock the environment in case, we are outside Telegram.
-import './mockEnv.ts';
+import { isEnvMocked } from './mockEnv.ts';
 
 // Dev-only stack logger to prefix console output with top callsite.
 if (import.meta.env.DEV) {
@@ -23,29 +27,50 @@ if (import.meta.env.DEV) {
   await import('@ton-ai-core/devtrace')
     .then((m: typeof import('@ton-ai-core/devtrace')) => m.installDevInstrumentation())
     .catch(() => {});
+
+  // Overlay with the failures of the dev server commands, such as the lint diagnostics.
+  await import('@/devtools/commandOverlay/overlay.ts')
+    .then(m => m.installCommandOverlay())
+    .catch(() => {});
 }
 
 const root = ReactDOM.createRoot(document.getElementById('root')!);
 
 try {
   const launchParams = retrieveLaunchParams();
-  const { tgWebAppPlatform: platform } = launchParams;
-  const debug = (launchParams.tgWebAppStartParam || '').includes('platformer_debug')
-    || import.meta.env.DEV;
+  const { tgWebAppPlatform: platform, tgWebAppVersion: version } = launchParams;
+  const debug = isDebug();
+
+  const missingFeatures = findMissingFeatures(requiredFeatures, version);
+  if (missingFeatures.length) {
+    throw new UnsupportedVersionError(version, missingFeatures);
+  }
+
+  // Record the communication with the Telegram client in debug mode, so the bugs of specific clients
+  // can be replayed in the browser, see src/devtools/bridgeSession.
+  if (debug && !isEnvMocked) {
+    await import('@/devtools/bridgeSession/recorder.ts')
+      .then(m => m.startBridgeRecorder())
+      .catch(() => {});
+  }
 
   // Configure all application dependencies.
   await init({
     debug,
     eruda: debug && ['ios', 'android'].includes(platform),
-    mockForMacOS: platform === 'macos',
+    platform,
+    version,
   })
-    .then(() => {
+    .then((initResult) => {
+      openStartParamRoute(launchParams.tgWebAppStartParam);
       root.render(
         <StrictMode>
-          <Root/>
+          <InitResultContext.Provider value={initResult}>
+            <Root/>
+          </InitResultContext.Provider>
         </StrictMode>,
       );
     });
 } catch (e) {
-  root.render(<EnvUnsupported/>);
+  root.render(<EnvUnsupported error={e}/>);
 }
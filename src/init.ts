@@ -6,73 +6,223 @@ import {
   bindThemeParamsCssVars,
   mountViewport,
   bindViewportCssVars,
-  mockTelegramEnv,
-  type ThemeParams,
-  themeParamsState,
-  retrieveLaunchParams,
-  emitEvent,
   miniApp,
+  mountMainButton,
+  mountSettingsButton,
+  mountClosingBehavior,
+  mountSwipeBehavior,
 } from '@telegram-apps/sdk-react';
 
+import { applyPlatformShims } from '@/shims/registry.ts';
+import { platformShims } from '@/shims/shims.ts';
+
 /**
- * Initializes the application and configures its dependencies.
+ * Name of the init step, which is a feature the application depends on.
  */
-export async function init(options: {
-  debug: boolean;
-  eruda: boolean;
-  mockForMacOS: boolean;
-}): Promise<void> {
-  // Set @telegram-apps/sdk-react debug mode and initialize it.
-  setDebug(options.debug);
-  initSDK();
+export type InitFeature =
+  | 'sdk'
+  | 'eruda'
+  | 'platformShims'
+  | 'backButton'
+  | 'mainButton'
+  | 'settingsButton'
+  | 'closingBehavior'
+  | 'swipeBehavior'
+  | 'initData'
+  | 'miniApp'
+  | 'viewport';
 
-  // Add Eruda if needed.
-  if (options.eruda) {
-    const { default: eruda } = await import('eruda');
-    eruda.init();
-    eruda.position({ x: window.innerWidth - 50, y: 0 });
-  }
+/**
+ * Outcome of the init step:
+ * - "ready" - the step completed.
+ * - "unavailable" - the client does not support the feature.
+ * - "skipped" - the feature is disabled by the options.
+ * - "failed" - the step threw an error.
+ */
+export type InitStepStatus = 'ready' | 'unavailable' | 'skipped' | 'failed';
 
-  // Telegram for macOS has a ton of bugs, including cases, when the client doesn't
-  // even response to the "web_app_request_theme" method. It also generates an incorrect
-  // event for the "web_app_request_safe_area" method.
-  if (options.mockForMacOS) {
-    let firstThemeSent = false;
-    mockTelegramEnv({
-      onEvent(event, next) {
-        if (event[0] === 'web_app_request_theme') {
-          let tp: ThemeParams = {};
-          if (firstThemeSent) {
-            tp = themeParamsState();
-          } else {
-            firstThemeSent = true;
-            tp ||= retrieveLaunchParams().tgWebAppThemeParams;
-          }
-          return emitEvent('theme_changed', { theme_params: tp });
-        }
+export interface InitStepResult {
+  name: InitFeature;
+  status: InitStepStatus;
+  /**
+   * True if the application can not start without the feature.
+   */
+  required: boolean;
+  /**
+   * Error thrown by the step, if its status is "failed".
+   */
+  error?: unknown;
+  /**
+   * Step duration in milliseconds.
+   */
+  duration: number;
+}
 
-        if (event[0] === 'web_app_request_safe_area') {
-          return emitEvent('safe_area_changed', { left: 0, top: 0, right: 0, bottom: 0 });
-        }
+/**
+ * Results of the init steps by the feature names.
+ */
+export type InitResult = Record<InitFeature, InitStepResult>;
 
-        next();
-      },
-    });
+interface InitStep {
+  name: InitFeature;
+  /**
+   * Failure of the required step stops the initialization. Failures of the optional steps are
+   * reported, and the application starts without the feature.
+   */
+  required?: boolean;
+  /**
+   * False if the feature is disabled.
+   */
+  enabled?: boolean;
+  /**
+   * @returns False if the client does not support the feature.
+   */
+  isAvailable?: () => boolean;
+  run: () => void | Promise<void>;
+}
+
+/**
+ * Error thrown when a required init step fails.
+ */
+export class InitError extends Error {
+  constructor(public readonly step: InitStepResult) {
+    super(`Required init step "${step.name}" is ${step.status}`);
+    this.name = 'InitError';
   }
+}
 
-  // Mount all components used in the project.
-  mountBackButton.ifAvailable();
-  restoreInitData();
+async function runStep(step: InitStep): Promise<InitStepResult> {
+  const start = performance.now();
+  const result = (status: InitStepStatus, error?: unknown): InitStepResult => ({
+    name: step.name,
+    status,
+    required: !!step.required,
+    ...(error === undefined ? {} : { error }),
+    duration: Math.round(performance.now() - start),
+  });
 
-  if (miniApp.mountSync.isAvailable()) {
-    miniApp.mountSync();
-    bindThemeParamsCssVars();
+  if (step.enabled === false) {
+    return result('skipped');
+  }
+  try {
+    if (step.isAvailable && !step.isAvailable()) {
+      return result('unavailable');
+    }
+    await step.run();
+    return result('ready');
+  } catch (e) {
+    return result('failed', e);
   }
+}
 
-  console.log('testvalue')
+/**
+ * Initializes the application and configures its dependencies.
+ * @returns Results of the init steps. Pages use them through the useInitResult hook to learn which
+ * features are ready.
+ * @throws {InitError} Required step failed or is unavailable.
+ */
+export async function init(options: {
+  debug: boolean;
+  eruda: boolean;
+  /**
+   * Platform and Mini Apps version of the client, which select the platform shims.
+   */
+  platform: string;
+  version: string;
+}): Promise<InitResult> {
+  const steps: InitStep[] = [
+    {
+      // Set @telegram-apps/sdk-react debug mode and initialize it.
+      name: 'sdk',
+      required: true,
+      run(): void {
+        setDebug(options.debug);
+        initSDK();
+      },
+    },
+    {
+      name: 'eruda',
+      enabled: options.eruda,
+      async run(): Promise<void> {
+        const { default: eruda } = await import('eruda');
+        eruda.init();
+        eruda.position({ x: window.innerWidth - 50, y: 0 });
+      },
+    },
+    {
+      // Work around the bugs of specific Telegram clients, see src/shims/shims.ts.
+      name: 'platformShims',
+      run(): void {
+        applyPlatformShims(platformShims, {
+          platform: options.platform,
+          version: options.version,
+          debug: options.debug,
+        });
+      },
+    },
+    // Mount all components used in the project.
+    {
+      name: 'backButton',
+      isAvailable: () => mountBackButton.isAvailable(),
+      run: () => mountBackButton(),
+    },
+    {
+      name: 'mainButton',
+      isAvailable: () => mountMainButton.isAvailable(),
+      run: () => mountMainButton(),
+    },
+    {
+      name: 'settingsButton',
+      isAvailable: () => mountSettingsButton.isAvailable(),
+      run: () => mountSettingsButton(),
+    },
+    {
+      name: 'closingBehavior',
+      isAvailable: () => mountClosingBehavior.isAvailable(),
+      run: () => mountClosingBehavior(),
+    },
+    {
+      name: 'swipeBehavior',
+      isAvailable: () => mountSwipeBehavior.isAvailable(),
+      run: () => mountSwipeBehavior(),
+    },
+    {
+      name: 'initData',
+      run: () => restoreInitData(),
+    },
+    {
+      name: 'miniApp',
+      isAvailable: () => miniApp.mountSync.isAvailable(),
+      run(): void {
+        miniApp.mountSync();
+        bindThemeParamsCssVars();
+      },
+    },
+    {
+      name: 'viewport',
+      isAvailable: () => mountViewport.isAvailable(),
+      async run(): Promise<void> {
+        await mountViewport();
+        bindViewportCssVars();
+      },
+    },
+  ];
+
+  const results = {} as InitResult;
+  for (const step of steps) {
+    const result = await runStep(step);
+    results[step.name] = result;
+
+    if (step.required && result.status !== 'ready') {
+      throw new InitError(result);
+    }
+    if (result.status === 'failed') {
+      console.error(`Init step "${step.name}" failed, the application starts without it`, result.error);
+    }
+  }
 
-  if (mountViewport.isAvailable()) {
-    await mountViewport();
-    bindViewportCssVars();
+  if (options.debug) {
+    console.table(Object.values(results).map(({ name, status, duration }) => ({ name, status, duration })));
   }
-}
\ No newline at end of file
+  return results;
+}
@@ -1,78 +1,81 @@
-import { mockTelegramEnv, isTMA, emitEvent } from '@telegram-apps/sdk-react';
+import { mockTelegramEnv, isTMA } from '@telegram-apps/sdk-react';
 
-// It is important, to mock the environment only for development purposes. When building the
-// application, import.meta.env.DEV will become false, and the code inside will be tree-shaken,
-// so you will not see it in your final bundle.
-if (import.meta.env.DEV) {
-  if (!await isTMA('complete')) {
-    const themeParams = {
-      accent_text_color: '#6ab2f2',
-      bg_color: '#17212b',
-      button_color: '#5288c1',
-      button_text_color: '#ffffff',
-      destructive_text_color: '#ec3942',
-      header_bg_color: '#17212b',
-      hint_color: '#708499',
-      link_color: '#6ab3f3',
-      secondary_bg_color: '#232e3c',
-      section_bg_color: '#17212b',
-      section_header_text_color: '#6ab3f3',
-      subtitle_text_color: '#708499',
-      text_color: '#f5f5f5',
-    } as const;
-    const noInsets = { left: 0, top: 0, bottom: 0, right: 0 } as const;
+import { createReplayHandler } from '@/devtools/bridgeSession/replayer.ts';
+import { parseBridgeSession } from '@/devtools/bridgeSession/session.ts';
+import { installMockPanel } from '@/devtools/mockPanel/panel.ts';
+import { createMockEventHandler, createMockHandlers } from '@/mocks/bridge.ts';
+import { type LocalMockProfile, resolveMockProfile, toLaunchParams } from '@/mocks/profiles.ts';
+import { requestSignedInitData } from '@/mocks/signedInitData.ts';
 
+/**
+ * URL query parameter selecting the recorded bridge session to replay.
+ */
+const MOCK_REPLAY_QUERY = 'mockReplay';
+
+/**
+ * True, if the application is launched outside Telegram and the environment is mocked.
+ *
+ * It is important, to mock the environment only for development purposes. When building the
+ * application, import.meta.env.DEV will become false, and the code inside will be tree-shaken,
+ * so you will not see it in your final bundle.
+ */
+export const isEnvMocked = import.meta.env.DEV && !await isTMA('complete');
+
+if (isEnvMocked) {
+  // Floating panel emitting Telegram events, such as theme changes, and logging the called methods
+  const panel = installMockPanel();
+
+  // The session recorded inside Telegram is replayed instead of the profile, if it is selected by
+  // the "mockReplay" query parameter, for example "?mockReplay=macos-theme" for the
+  // src/mocks/sessions/macos-theme.json file.
+  const replayName = new URLSearchParams(window.location.search).get(MOCK_REPLAY_QUERY);
+  const sessions = import.meta.glob<unknown>('./mocks/sessions/*.json', { import: 'default' });
+  const loadSession = replayName ? sessions[`./mocks/sessions/${replayName}.json`] : undefined;
+  if (replayName && !loadSession) {
+    console.warn(`🎞️ Recorded session "${replayName}" is not found in src/mocks/sessions`);
+  }
+
+  if (loadSession) {
+    const session = parseBridgeSession(await loadSession());
     mockTelegramEnv({
-      onEvent(e) {
-        // Here you can write your own handlers for all known Telegram MIni Apps methods.
-        if (e[0] === 'web_app_request_theme') {
-          return emitEvent('theme_changed', { theme_params: themeParams });
-        }
-        if (e[0] === 'web_app_request_viewport') {
-          return emitEvent('viewport_changed', {
-            height: window.innerHeight,
-            width: window.innerWidth,
-            is_expanded: true,
-            is_state_stable: true,
-          });
-        }
-        if (e[0] === 'web_app_request_content_safe_area') {
-          return emitEvent('content_safe_area_changed', noInsets);
-        }
-        if (e[0] === 'web_app_request_safe_area') {
-          return emitEvent('safe_area_changed', noInsets);
-        }
-      },
-      launchParams: new URLSearchParams([
-        // Discover more launch parameters:
-        // https://docs.telegram-mini-apps.com/platform/launch-parameters#parameters-list
-        ['tgWebAppThemeParams', JSON.stringify(themeParams)],
-        // Your init data goes here. Learn more about it here:
-        // https://docs.telegram-mini-apps.com/platform/init-data#parameters-list
-        //
-        // Note that to make sure, you are using a valid init data, you must pass it exactly as it
-        // is sent from the Telegram application. The reason is in case you will sort its keys
-        // (auth_date, hash, user, etc.) or values your own way, init data validation will more
-        // likely to fail on your server side. So, to make sure you are working with a valid init
-        // data, it is better to take a real one from your application and paste it here. It should
-        // look something like this (a correctly encoded URL search params):
-        // ```
-        // user=%7B%22id%22%3A279058397%2C%22first_name%22%3A%22Vladislav%22%2C%22last_name%22...
-        // ```
-        // But in case you don't really need a valid init data, use this one:
-        ['tgWebAppData', new URLSearchParams([
-          ['auth_date', (new Date().getTime() / 1000 | 0).toString()],
-          ['hash', 'some-hash'],
-          ['signature', 'some-signature'],
-          ['user', JSON.stringify({ id: 1, first_name: 'Vladislav' })],
-        ]).toString()],
-        ['tgWebAppVersion', '8.4'],
-        ['tgWebAppPlatform', 'tdesktop'],
-      ]),
+      launchParams: session.launchParams,
+      onEvent: createReplayHandler(session, panel.logMethod),
+    });
+    console.info(`🎞️ Replaying the bridge session "${replayName}", recorded at ${session.recordedAt}`);
+  } else {
+    // The profile is selected by the "mockProfile" query parameter, for example
+    // "?mockProfile=ios-light", or by the src/mocks/profile.local.json file, which is not committed.
+    // See the list of profiles in src/mocks/profiles.ts.
+    const localProfile = Object.values(
+      import.meta.glob<LocalMockProfile>('./mocks/profile.local.json', { eager: true, import: 'default' }),
+    )[0];
+    const { name, profile } = resolveMockProfile(window.location.search, localProfile);
+    // Signed with the test bot token from the MOCK_BOT_TOKEN variable, if it is set, so the
+    // backend validation passes
+    const initDataRaw = profile.initData ? await requestSignedInitData(profile.initData) : undefined;
+
+    mockTelegramEnv({
+      // Responds to the Mini Apps methods the way Telegram does. Add your own handlers for the
+      // methods you need in src/mocks/bridge.ts.
+      onEvent: createMockEventHandler(createMockHandlers(profile), panel.logMethod),
+      // Discover more launch parameters:
+      // https://docs.telegram-mini-apps.com/platform/launch-parameters#parameters-list
+      //
+      // Note that to make sure, you are using a valid init data, you must pass it exactly as it
+      // is sent from the Telegram application. The reason is in case you will sort its keys
+      // (auth_date, hash, user, etc.) or values your own way, init data validation will more
+      // likely to fail on your server side. So, to make sure you are working with a valid init
+      // data, it is better to take a real one from your application or sign it with the test bot
+      // token.
+      launchParams: toLaunchParams(profile, initDataRaw),
     });
 
     console.info(
-      '⚠️ As long as the current environment was not considered as the Telegram-based one, it was mocked. Take a note, that you should not do it in production and current behavior is only specific to the development process. Environment mocking is also applied only in development mode. So, after building the application, you will not see this behavior and related warning, leading to crashing the application outside Telegram.',
+      `🎭 Mock profile "${name}": ${profile.description}${initDataRaw ? ', init data is signed' : ''}`,
     );
   }
+
+  console.info(
+    '⚠️ As long as the current environment was not considered as the Telegram-based one, it was mocked. Take a note, that you should not do it in production and current behavior is only specific to the development process. Environment mocking is also applied only in development mode. So, after building the application, you will not see this behavior and related warning, leading to crashing the application outside Telegram.',
+  );
 }
@@ -0,0 +1,220 @@
+import {
+  emitEvent,
+  on,
+  type EventPayload,
+  type MethodName,
+  type MethodParams,
+  type SafeAreaInsets,
+} from '@telegram-apps/sdk-react';
+
+import type { OnEvent } from '@/devtools/shared.ts';
+import type { MockProfile } from '@/mocks/profiles.ts';
+import { createMockUI } from '@/mocks/ui.ts';
+
+/**
+ * Handlers of the Mini Apps methods by their names.
+ * @see https://docs.telegram-mini-apps.com/platform/methods
+ */
+export type MockHandlers = {
+  [M in MethodName]?: (params: MethodParams<M>) => void;
+};
+
+/**
+ * Prefix of the localStorage keys, where the cloud storage values are persisted.
+ */
+export const CLOUD_STORAGE_PREFIX = 'mock-cloud-storage:';
+
+//
+// Cloud storage
+//
+
+function toKeys(keys: string | string[]): string[] {
+  return Array.isArray(keys) ? keys : [keys];
+}
+
+function getCloudStorageKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(CLOUD_STORAGE_PREFIX)) {
+      keys.push(key.slice(CLOUD_STORAGE_PREFIX.length));
+    }
+  }
+  return keys;
+}
+
+/**
+ * Invokes the custom method: the cloud storage methods and the current time.
+ * @returns Method result.
+ * @throws {Error} If the method is not supported, with the error code as the message.
+ */
+function invokeCustomMethod(method: string, params: Record<string, unknown>): unknown {
+  switch (method) {
+    case 'saveStorageValue':
+      localStorage.setItem(`${CLOUD_STORAGE_PREFIX}${String(params.key)}`, String(params.value));
+      return true;
+    case 'getStorageValues':
+      return Object.fromEntries(toKeys(params.keys as string | string[]).map(key => [
+        key,
+        localStorage.getItem(`${CLOUD_STORAGE_PREFIX}${key}`) ?? '',
+      ]));
+    case 'deleteStorageValues':
+      for (const key of toKeys(params.keys as string | string[])) {
+        localStorage.removeItem(`${CLOUD_STORAGE_PREFIX}${key}`);
+      }
+      return true;
+    case 'getStorageKeys':
+      return getCloudStorageKeys();
+    case 'getCurrentTime':
+      return Math.floor(Date.now() / 1000);
+    default:
+      throw new Error('UNKNOWN_METHOD');
+  }
+}
+
+//
+// Handlers
+//
+
+/**
+ * Creates the handlers of the commonly used Mini Apps methods, which respond with the same events
+ * Telegram does. Popups, the QR scanner and the buttons are rendered by the browser, haptic
+ * feedback is logged to the console and the cloud storage is persisted in localStorage.
+ *
+ * The theme, viewport and safe areas emitted after the launch, for example by the dev control
+ * panel, are returned to the later requests.
+ * @param profile - mocked environment.
+ */
+export function createMockHandlers(profile: MockProfile): MockHandlers {
+  const { themeParams } = profile;
+  const noInsets: SafeAreaInsets = { left: 0, top: 0, bottom: 0, right: 0 };
+  let theme: EventPayload<'theme_changed'>['theme_params'] = themeParams;
+  let viewport: EventPayload<'viewport_changed'> | undefined;
+  let safeArea = noInsets;
+  let contentSafeArea = noInsets;
+  on('theme_changed', (e) => {
+    theme = e.theme_params;
+  });
+  on('viewport_changed', (e) => {
+    viewport = e;
+  });
+  on('safe_area_changed', (e) => {
+    safeArea = e;
+  });
+  on('content_safe_area_changed', (e) => {
+    contentSafeArea = e;
+  });
+
+  const ui = createMockUI(themeParams, {
+    onMainButtonClick: () => emitEvent('main_button_pressed'),
+    onSecondaryButtonClick: () => emitEvent('secondary_button_pressed'),
+    onBackButtonClick: () => emitEvent('back_button_pressed'),
+    onSettingsButtonClick: () => emitEvent('settings_button_pressed'),
+  });
+  let needCloseConfirmation = false;
+
+  return {
+    web_app_request_theme(): void {
+      emitEvent('theme_changed', { theme_params: theme });
+    },
+    web_app_request_viewport(): void {
+      emitEvent('viewport_changed', viewport || {
+        height: window.innerHeight,
+        width: window.innerWidth,
+        is_expanded: true,
+        is_state_stable: true,
+      });
+    },
+    web_app_request_content_safe_area(): void {
+      emitEvent('content_safe_area_changed', contentSafeArea);
+    },
+    web_app_request_safe_area(): void {
+      emitEvent('safe_area_changed', safeArea);
+    },
+    web_app_open_popup(params): void {
+      void ui.showPopup(params).then((buttonId) => {
+        emitEvent('popup_closed', buttonId === undefined ? {} : { button_id: buttonId });
+      });
+    },
+    web_app_setup_main_button(params): void {
+      ui.setMainButton(params);
+    },
+    web_app_setup_secondary_button(params): void {
+      ui.setSecondaryButton(params);
+    },
+    web_app_setup_back_button({ is_visible: isVisible }): void {
+      ui.setBackButton(isVisible);
+    },
+    web_app_setup_settings_button({ is_visible: isVisible }): void {
+      ui.setSettingsButton(isVisible);
+    },
+    web_app_setup_swipe_behavior(): void {
+      // The browser has no swipe gesture closing the application, so there is nothing to disable
+    },
+    web_app_trigger_haptic_feedback(params): void {
+      const kind = params.type === 'impact'
+        ? params.impact_style
+        : params.type === 'notification' ? params.notification_type : '';
+      console.info(`📳 Haptic feedback: ${params.type}${kind ? ` (${kind})` : ''}`);
+    },
+    web_app_setup_closing_behavior({ need_confirmation: needConfirmation }): void {
+      needCloseConfirmation = needConfirmation;
+    },
+    web_app_close(): void {
+      if (needCloseConfirmation && !window.confirm('Changes that you made may not be saved. Close anyway?')) {
+        return;
+      }
+      ui.showClosed();
+    },
+    web_app_open_scan_qr_popup(params): void {
+      ui.showQrScanner(params?.text, {
+        onScan: data => emitEvent('qr_text_received', { data }),
+        onClose: () => emitEvent('scan_qr_popup_closed'),
+      });
+    },
+    web_app_close_scan_qr_popup(): void {
+      ui.hideQrScanner();
+    },
+    web_app_read_text_from_clipboard({ req_id: reqId }): void {
+      // Without the clipboard access, Telegram responds with null. The clipboard API is missing in
+      // insecure contexts, for example when the dev server is opened over HTTP from a phone.
+      const read = navigator.clipboard?.readText
+        ? navigator.clipboard.readText().catch(() => null)
+        : Promise.resolve(null);
+      read
+        .then(data => emitEvent('clipboard_text_received', { req_id: reqId, data }))
+        .catch(() => {});
+    },
+    web_app_invoke_custom_method({ req_id: reqId, method, params }): void {
+      try {
+        const result = invokeCustomMethod(method, params as Record<string, unknown>);
+        emitEvent('custom_method_invoked', { req_id: reqId, result });
+      } catch (e) {
+        emitEvent('custom_method_invoked', { req_id: reqId, error: e instanceof Error ? e.message : String(e) });
+      }
+    },
+  };
+}
+
+/**
+ * @returns Handler of the Mini Apps method calls for the mockTelegramEnv function. Methods without
+ * a handler are logged to the console and ignored.
+ * @param handlers - handlers of the methods.
+ * @param onCall - function called with every method call before handling it.
+ */
+export function createMockEventHandler(
+  handlers: MockHandlers,
+  onCall?: (method: string, params: unknown) => void,
+): OnEvent {
+  return ([method, params]) => {
+    onCall?.(method, params);
+    const handler = Object.prototype.hasOwnProperty.call(handlers, method)
+      ? handlers[method as MethodName] as (params: unknown) => void
+      : undefined;
+    if (handler) {
+      handler(params);
+    } else {
+      console.debug(`🎭 Mini Apps method "${method}" is not mocked`, params);
+    }
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * User in the format it is passed in the init data.
+ * @see https://docs.telegram-mini-apps.com/platform/init-data#user
+ */
+export interface MockUser {
+  id: number;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+  is_premium?: boolean;
+  is_bot?: boolean;
+  allows_write_to_pm?: boolean;
+  added_to_attachment_menu?: boolean;
+  photo_url?: string;
+}
+
+/**
+ * Chat in the format it is passed in the init data.
+ * @see https://docs.telegram-mini-apps.com/platform/init-data#chat
+ */
+export interface MockChat {
+  id: number;
+  type: 'group' | 'supergroup' | 'channel';
+  title: string;
+  username?: string;
+  photo_url?: string;
+}
+
+/**
+ * Init data fields, except the ones computed when mocking: auth_date, hash and signature.
+ * @see https://docs.telegram-mini-apps.com/platform/init-data#parameters-list
+ */
+export interface MockInitData {
+  user?: MockUser;
+  receiver?: MockUser;
+  chat?: MockChat;
+  chat_type?: 'sender' | 'private' | 'group' | 'supergroup' | 'channel';
+  chat_instance?: string;
+  query_id?: string;
+  start_param?: string;
+  can_send_after?: number;
+}
+
+/**
+ * Environment the application is launched in, when it is opened outside Telegram.
+ */
+export interface MockProfile {
+  description: string;
+  /**
+   * Platform identifier, for example "tdesktop", "ios" or "android".
+   */
+  platform: string;
+  /**
+   * Mini Apps version supported by the client, for example "8.4".
+   */
+  version: string;
+  /**
+   * Theme parameters by their names in the launch parameters, for example "bg_color".
+   */
+  themeParams: Record<string, `#${string}`>;
+  /**
+   * Init data of the launch, or null to launch without it.
+   */
+  initData: MockInitData | null;
+  /**
+   * The application is launched via the inline button.
+   */
+  botInline?: boolean;
+}
+
+/**
+ * Contents of the local profile file: fields of the profile overriding the `extends` one, which is
+ * the default profile if omitted.
+ */
+export type LocalMockProfile = Partial<MockProfile> & { extends?: string };
+
+/**
+ * URL query parameter selecting the profile, for example "?mockProfile=ios-light".
+ */
+export const MOCK_PROFILE_QUERY = 'mockProfile';
+
+export const DEFAULT_MOCK_PROFILE = 'desktop-dark';
+
+//
+// Profiles
+//
+
+const darkTheme: MockProfile['themeParams'] = {
+  accent_text_color: '#6ab2f2',
+  bg_color: '#17212b',
+  button_color: '#5288c1',
+  button_text_color: '#ffffff',
+  destructive_text_color: '#ec3942',
+  header_bg_color: '#17212b',
+  hint_color: '#708499',
+  link_color: '#6ab3f3',
+  secondary_bg_color: '#232e3c',
+  section_bg_color: '#17212b',
+  section_header_text_color: '#6ab3f3',
+  subtitle_text_color: '#708499',
+  text_color: '#f5f5f5',
+};
+
+const lightTheme: MockProfile['themeParams'] = {
+  accent_text_color: '#168acd',
+  bg_color: '#ffffff',
+  button_color: '#40a7e3',
+  button_text_color: '#ffffff',
+  destructive_text_color: '#d14e4e',
+  header_bg_color: '#ffffff',
+  hint_color: '#999999',
+  link_color: '#168acd',
+  secondary_bg_color: '#f1f1f1',
+  section_bg_color: '#ffffff',
+  section_header_text_color: '#168acd',
+  subtitle_text_color: '#999999',
+  text_color: '#000000',
+};
+
+/**
+ * Theme palettes of the profiles.
+ */
+export const mockThemes = {
+  dark: darkTheme,
+  light: lightTheme,
+};
+
+const user: MockUser = {
+  id: 1,
+  first_name: 'Vladislav',
+};
+
+export const mockProfiles: Record<string, MockProfile> = {
+  'desktop-dark': {
+    description: 'Telegram Desktop with the dark theme',
+    platform: 'tdesktop',
+    version: '8.4',
+    themeParams: darkTheme,
+    initData: { user },
+  },
+  'ios-light': {
+    description: 'Telegram for iOS with the light theme and a premium user',
+    platform: 'ios',
+    version: '8.4',
+    themeParams: lightTheme,
+    initData: {
+      user: {
+        ...user,
+        last_name: 'Petrov',
+        username: 'vladislav_petrov',
+        language_code: 'en',
+        is_premium: true,
+        allows_write_to_pm: true,
+      },
+      chat_type: 'sender',
+      chat_instance: '-8316486371826530118',
+    },
+  },
+  'android-dark': {
+    description: 'Telegram for Android with the dark theme',
+    platform: 'android',
+    version: '8.4',
+    themeParams: darkTheme,
+    initData: { user: { ...user, language_code: 'ru' } },
+  },
+  'old-client': {
+    description: 'Outdated Telegram client supporting Mini Apps 6.0',
+    platform: 'android',
+    version: '6.0',
+    themeParams: lightTheme,
+    initData: { user },
+  },
+  'no-user': {
+    description: 'Launch without init data, for example from a keyboard button',
+    platform: 'tdesktop',
+    version: '8.4',
+    themeParams: darkTheme,
+    initData: null,
+  },
+  'group-chat': {
+    description: 'Launch from the attachment menu of a group chat',
+    platform: 'android',
+    version: '8.4',
+    themeParams: lightTheme,
+    initData: {
+      user,
+      receiver: { id: 2, first_name: 'Alice', username: 'alice' },
+      chat: { id: -1001234567890, type: 'supergroup', title: 'Mini Apps Developers', username: 'devs' },
+      chat_type: 'supergroup',
+      chat_instance: '4398265701398265713',
+      start_param: 'group',
+    },
+  },
+  'inline': {
+    description: 'Launch via the inline mode button',
+    platform: 'ios',
+    version: '8.4',
+    themeParams: darkTheme,
+    initData: {
+      user,
+      query_id: 'AAHdF6IQAAAAAN0XohDhrOrc',
+    },
+    botInline: true,
+  },
+};
+
+//
+// Selection
+//
+
+/**
+ * Selects the mock profile. The URL query parameter takes precedence over the local profile file,
+ * which takes precedence over the default profile. Unknown profile names are reported to the
+ * console and replaced with the default profile.
+ * @returns Name and contents of the profile.
+ * @param search - URL query string.
+ * @param local - contents of the local profile file, if it exists.
+ */
+export function resolveMockProfile(search: string, local?: LocalMockProfile): {
+  name: string;
+  profile: MockProfile;
+} {
+  const find = (name: string): MockProfile | undefined => {
+    if (Object.prototype.hasOwnProperty.call(mockProfiles, name)) {
+      return mockProfiles[name];
+    }
+    console.warn(
+      `Unknown mock profile "${name}". Available profiles: ${Object.keys(mockProfiles).join(', ')}`,
+    );
+  };
+
+  const queryName = new URLSearchParams(search).get(MOCK_PROFILE_QUERY);
+  const queryProfile = queryName ? find(queryName) : undefined;
+  if (queryName && queryProfile) {
+    return { name: queryName, profile: queryProfile };
+  }
+
+  if (local) {
+    const { extends: base = DEFAULT_MOCK_PROFILE, ...overrides } = local;
+    const baseProfile = find(base) || mockProfiles[DEFAULT_MOCK_PROFILE];
+    return { name: 'local', profile: { ...baseProfile, ...overrides } };
+  }
+  return { name: DEFAULT_MOCK_PROFILE, profile: mockProfiles[DEFAULT_MOCK_PROFILE] };
+}
+
+/**
+ * @returns Launch parameters of the profile.
+ * @see https://docs.telegram-mini-apps.com/platform/launch-parameters#parameters-list
+ * @param profile - profile to create launch parameters for.
+ * @param initDataRaw - signed init data of the profile. By default, the init data is created with
+ * the placeholder hash and signature.
+ */
+export function toLaunchParams(profile: MockProfile, initDataRaw?: string): URLSearchParams {
+  const params = new URLSearchParams([
+    ['tgWebAppThemeParams', JSON.stringify(profile.themeParams)],
+    ['tgWebAppVersion', profile.version],
+    ['tgWebAppPlatform', profile.platform],
+  ]);
+
+  if (initDataRaw) {
+    params.set('tgWebAppData', initDataRaw);
+  } else if (profile.initData) {
+    // Note that this init data has an invalid hash and signature, so the server side validation
+    // will fail. To work with a valid init data, sign it with the test bot token, see signedInitData.ts.
+    const initData = new URLSearchParams([
+      ['auth_date', (new Date().getTime() / 1000 | 0).toString()],
+      ['hash', 'some-hash'],
+      ['signature', 'some-signature'],
+    ]);
+    for (const [key, value] of Object.entries(profile.initData)) {
+      if (value !== undefined) {
+        initData.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+    }
+    params.set('tgWebAppData', initData.toString());
+  }
+  if (profile.initData?.start_param) {
+    params.set('tgWebAppStartParam', profile.initData.start_param);
+  }
+  if (profile.botInline) {
+    params.set('tgWebAppBotInline', '1');
+  }
+  return params;
+}
@@ -0,0 +1,24 @@
+import type { MockInitData } from '@/mocks/profiles.ts';
+
+/**
+ * Requests the dev server to sign the init data with the local test bot token, see the
+ * mockInitData plugin.
+ * @returns Signed init data in the raw format, or undefined if the dev server has no bot token.
+ * @param initData - init data fields.
+ */
+export async function requestSignedInitData(initData: MockInitData): Promise<string | undefined> {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}__mock-init-data`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initData),
+    });
+    if (!response.ok) {
+      return;
+    }
+    const { initDataRaw } = await response.json() as { initDataRaw: string };
+    return initDataRaw;
+  } catch {
+    return;
+  }
+}
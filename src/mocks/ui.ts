@@ -0,0 +1,375 @@
+import type { PopupButton, PopupParams, SecondaryButtonPosition } from '@telegram-apps/sdk-react';
+
+import { createElement, createShadowHost } from '@/devtools/shared.ts';
+
+/**
+ * Bottom button state in the format of the "web_app_setup_main_button" method parameters.
+ */
+export interface MockButtonState {
+  is_visible?: boolean;
+  is_active?: boolean;
+  is_progress_visible?: boolean;
+  has_shine_effect?: boolean;
+  text?: string;
+  color?: string;
+  text_color?: string;
+  position?: SecondaryButtonPosition;
+}
+
+export interface MockUI {
+  /**
+   * Shows the popup.
+   * @returns Identifier of the clicked button, or undefined if the popup was closed without
+   * clicking any button.
+   */
+  showPopup(params: PopupParams): Promise<string | undefined>;
+  /**
+   * Shows the QR scanner stand-in, where the QR content is entered manually.
+   */
+  showQrScanner(text: string | undefined, callbacks: {
+    onScan: (data: string) => void;
+    onClose: () => void;
+  }): void;
+  hideQrScanner(): void;
+  setMainButton(state: MockButtonState): void;
+  setSecondaryButton(state: MockButtonState): void;
+  setBackButton(isVisible: boolean): void;
+  setSettingsButton(isVisible: boolean): void;
+  /**
+   * Replaces the application with the screen telling it was closed.
+   */
+  showClosed(): void;
+}
+
+const STYLES = `
+:host {
+  all: initial;
+  font: 15px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+}
+.backdrop {
+  position: fixed;
+  inset: 0;
+  z-index: 2147483646;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 24px;
+  background: rgba(0, 0, 0, 0.4);
+}
+.dialog {
+  width: 100%;
+  max-width: 320px;
+  border-radius: 14px;
+  padding: 16px;
+  background: var(--bg-color);
+  color: var(--text-color);
+  box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+}
+.dialog-title {
+  font-weight: 600;
+  margin-bottom: 4px;
+}
+.dialog-message {
+  margin-bottom: 16px;
+  white-space: pre-wrap;
+}
+.dialog-input {
+  box-sizing: border-box;
+  width: 100%;
+  margin-bottom: 16px;
+  padding: 8px;
+  border: 1px solid var(--hint-color);
+  border-radius: 8px;
+  background: transparent;
+  color: inherit;
+  font: inherit;
+}
+.dialog-buttons {
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+}
+.dialog-button {
+  border: 0;
+  padding: 6px 10px;
+  background: none;
+  color: var(--link-color);
+  font: inherit;
+  font-weight: 600;
+  cursor: pointer;
+}
+.dialog-button.destructive {
+  color: var(--destructive-color);
+}
+.bottom-bar {
+  position: fixed;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  z-index: 2147483645;
+  display: flex;
+  gap: 8px;
+  padding: 8px 16px;
+  padding-bottom: max(8px, env(safe-area-inset-bottom));
+  background: var(--bg-color);
+}
+.bottom-bar.vertical {
+  flex-direction: column;
+}
+.bottom-button {
+  flex: 1;
+  min-height: 48px;
+  border: 0;
+  border-radius: 10px;
+  font: inherit;
+  font-weight: 600;
+  cursor: pointer;
+}
+.bottom-button:disabled {
+  opacity: 0.5;
+  cursor: default;
+}
+.bottom-button.shine {
+  box-shadow: 0 0 12px rgba(255, 255, 255, 0.6) inset;
+}
+.back-button {
+  position: fixed;
+  top: 8px;
+  left: 8px;
+  z-index: 2147483645;
+  border: 0;
+  border-radius: 8px;
+  padding: 6px 10px;
+  background: var(--bg-color);
+  color: var(--link-color);
+  font: inherit;
+  cursor: pointer;
+  box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2);
+}
+.settings-button {
+  position: fixed;
+  top: 8px;
+  right: 8px;
+  z-index: 2147483645;
+  border: 0;
+  border-radius: 8px;
+  padding: 6px 10px;
+  background: var(--bg-color);
+  color: var(--link-color);
+  font: inherit;
+  cursor: pointer;
+  box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2);
+}
+.closed {
+  position: fixed;
+  inset: 0;
+  z-index: 2147483647;
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  justify-content: center;
+  gap: 16px;
+  background: var(--bg-color);
+  color: var(--hint-color);
+}
+`;
+
+/**
+ * Text of the popup buttons with the predefined types.
+ */
+const BUTTON_TEXTS = { ok: 'OK', close: 'Close', cancel: 'Cancel' };
+
+function createButton(className: string, text: string, onClick: () => void): HTMLButtonElement {
+  const button = createElement('button', className, text);
+  button.type = 'button';
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function getButtonText(button: PopupButton): string {
+  return 'text' in button ? button.text : BUTTON_TEXTS[button.type];
+}
+
+/**
+ * Creates the browser-rendered stand-ins of the native Telegram interface: popups, the QR scanner
+ * and the bottom, back and settings buttons. The elements use the colors of the mocked theme.
+ * @param themeParams - theme parameters of the mocked environment.
+ * @param callbacks - handlers of the button clicks.
+ */
+export function createMockUI(themeParams: Record<string, string>, callbacks: {
+  onMainButtonClick: () => void;
+  onSecondaryButtonClick: () => void;
+  onBackButtonClick: () => void;
+  onSettingsButtonClick: () => void;
+}): MockUI {
+  const { host, shadow } = createShadowHost('mock-telegram-ui', STYLES);
+  host.style.setProperty('--bg-color', themeParams.bg_color || '#ffffff');
+  host.style.setProperty('--text-color', themeParams.text_color || '#000000');
+  host.style.setProperty('--hint-color', themeParams.hint_color || '#999999');
+  host.style.setProperty('--link-color', themeParams.link_color || '#168acd');
+  host.style.setProperty('--destructive-color', themeParams.destructive_text_color || '#d14e4e');
+
+  const mount = (element: HTMLElement): void => {
+    shadow.append(element);
+    if (!host.isConnected) {
+      document.body.append(host);
+    }
+  };
+
+  //
+  // Bottom buttons
+  //
+  let mainButton: MockButtonState = {};
+  let secondaryButton: MockButtonState = {};
+  const bottomBar = createElement('div', 'bottom-bar');
+
+  const renderBottomButton = (state: MockButtonState, isMain: boolean): HTMLButtonElement => {
+    const button = createButton(
+      `bottom-button${state.has_shine_effect ? ' shine' : ''}`,
+      state.is_progress_visible ? '…' : state.text || '',
+      isMain ? callbacks.onMainButtonClick : callbacks.onSecondaryButtonClick,
+    );
+    button.disabled = state.is_active === false || !!state.is_progress_visible;
+    button.style.background = state.color || (isMain ? themeParams.button_color || '#40a7e3' : 'transparent');
+    button.style.color = state.text_color
+      || (isMain ? themeParams.button_text_color || '#ffffff' : themeParams.button_color || '#40a7e3');
+    return button;
+  };
+
+  const renderBottomBar = (): void => {
+    const buttons: HTMLButtonElement[] = [];
+    if (mainButton.is_visible) {
+      buttons.push(renderBottomButton(mainButton, true));
+    }
+    if (secondaryButton.is_visible) {
+      const button = renderBottomButton(secondaryButton, false);
+      const { position = 'left' } = secondaryButton;
+      if (position === 'left' || position === 'top') {
+        buttons.unshift(button);
+      } else {
+        buttons.push(button);
+      }
+    }
+    bottomBar.classList.toggle(
+      'vertical',
+      secondaryButton.position === 'top' || secondaryButton.position === 'bottom',
+    );
+    bottomBar.replaceChildren(...buttons);
+    if (buttons.length) {
+      mount(bottomBar);
+    } else {
+      bottomBar.remove();
+    }
+  };
+
+  //
+  // Dialogs
+  //
+  let qrScanner: HTMLElement | undefined;
+  const hideQrScanner = (): void => {
+    qrScanner?.remove();
+    qrScanner = undefined;
+  };
+  const backButton = createButton('back-button', '‹ Back', callbacks.onBackButtonClick);
+  const settingsButton = createButton('settings-button', '⚙ Settings', callbacks.onSettingsButtonClick);
+
+  const showDialog = (
+    title: string,
+    message: string,
+    content: HTMLElement[],
+    onBackdropClick: () => void,
+  ): HTMLElement => {
+    const backdrop = createElement('div', 'backdrop');
+    const dialog = createElement('div', 'dialog');
+    if (title) {
+      dialog.append(createElement('div', 'dialog-title', title));
+    }
+    dialog.append(createElement('div', 'dialog-message', message), ...content);
+    backdrop.append(dialog);
+    backdrop.addEventListener('click', (e) => {
+      if (e.target === backdrop) {
+        backdrop.remove();
+        onBackdropClick();
+      }
+    });
+    mount(backdrop);
+    return backdrop;
+  };
+
+  return {
+    showPopup(params): Promise<string | undefined> {
+      return new Promise((resolve) => {
+        const buttons = createElement('div', 'dialog-buttons');
+        const popup = showDialog(params.title, params.message, [buttons], () => resolve(undefined));
+        buttons.append(...params.buttons.map(button => createButton(
+          `dialog-button${button.type === 'destructive' ? ' destructive' : ''}`,
+          getButtonText(button),
+          () => {
+            popup.remove();
+            resolve(button.id);
+          },
+        )));
+      });
+    },
+    showQrScanner(text, { onScan, onClose }): void {
+      qrScanner?.remove();
+      const input = createElement('input', 'dialog-input');
+      input.placeholder = 'QR code content';
+      const buttons = createElement('div', 'dialog-buttons');
+      const close = (): void => {
+        hideQrScanner();
+        onClose();
+      };
+      const scan = (): void => {
+        if (input.value) {
+          onScan(input.value);
+          input.value = '';
+        }
+      };
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          scan();
+        }
+      });
+      buttons.append(
+        createButton('dialog-button', 'Cancel', close),
+        createButton('dialog-button', 'Scan', scan),
+      );
+      qrScanner = showDialog(
+        'Scan QR',
+        text || 'There is no camera in the mocked environment, enter the QR code content instead.',
+        [input, buttons],
+        onClose,
+      );
+      input.focus();
+    },
+    hideQrScanner,
+    setMainButton(state): void {
+      mainButton = { ...mainButton, ...state };
+      renderBottomBar();
+    },
+    setSecondaryButton(state): void {
+      secondaryButton = { ...secondaryButton, ...state };
+      renderBottomBar();
+    },
+    setBackButton(isVisible): void {
+      if (isVisible) {
+        mount(backButton);
+      } else {
+        backButton.remove();
+      }
+    },
+    setSettingsButton(isVisible): void {
+      if (isVisible) {
+        mount(settingsButton);
+      } else {
+        settingsButton.remove();
+      }
+    },
+    showClosed(): void {
+      const closed = createElement('div', 'closed', 'The Mini App was closed');
+      closed.append(createButton('dialog-button', 'Open again', () => window.location.reload()));
+      mount(closed);
+    },
+  };
+}
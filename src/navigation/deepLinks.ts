@@ -0,0 +1,172 @@
+import { type RouteMeta, routeMeta } from '@/navigation/routeMeta.tsx';
+
+/**
+ * Maximum length of the start parameter accepted by Telegram.
+ */
+export const START_PARAM_MAX_LENGTH = 512;
+
+/**
+ * Characters allowed by Telegram in the start parameter.
+ */
+const START_PARAM_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * Characters allowed in the deep link names of the routes. The underscore separates the name from
+ * the encoded parameters, so it is not allowed.
+ */
+const DEEP_LINK_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+type DeepLinkRoute = Extract<(typeof routeMeta)[number], { deepLink: string }>;
+
+/**
+ * Paths of the routes which can be opened by a deep link.
+ */
+export type DeepLinkPath = DeepLinkRoute['path'];
+
+/**
+ * Parameters of the route path, for example `{ id: string }` for "/items/:id".
+ */
+export type PathParams<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & PathParams<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : Record<never, never>;
+
+/**
+ * Parameters of the deep link functions: the path parameters are required for the routes having
+ * them, and omitted for the other routes.
+ */
+type PathParamsArgs<P extends string> = keyof PathParams<P> extends never ? [] : [params: PathParams<P>];
+
+export interface DeepLink {
+  /**
+   * Path of the route, as declared in the route table.
+   */
+  path: DeepLinkPath;
+  params: Record<string, string>;
+  /**
+   * Path to navigate to, with the parameters substituted.
+   */
+  location: string;
+}
+
+function getPathParamNames(path: string): string[] {
+  return path.split('/').filter(s => s.startsWith(':')).map(s => s.slice(1));
+}
+
+function toBase64Url(value: string): string {
+  const binary = String.fromCharCode(...new TextEncoder().encode(value));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+/**
+ * @returns Start parameter opening the route. It is the deep link name of the route, followed by
+ * the underscore and the base64url-encoded JSON array of the path parameters, if the route has
+ * them.
+ * @param path - route path.
+ * @param params - route path parameters.
+ * @throws {Error} The route can not be opened by a deep link, or the parameters do not fit into the
+ * start parameter length limit.
+ */
+export function createStartParam<P extends DeepLinkPath>(path: P, ...[params]: PathParamsArgs<P>): string {
+  const route = (routeMeta as readonly RouteMeta[]).find(r => r.path === path);
+  if (!route?.deepLink) {
+    throw new Error(`Route "${path}" has no deep link name`);
+  }
+  if (!DEEP_LINK_NAME_PATTERN.test(route.deepLink)) {
+    throw new Error(`Deep link name "${route.deepLink}" may contain only letters, digits and hyphens`);
+  }
+
+  const values = getPathParamNames(path).map(name => (params as Record<string, string>)[name]);
+  const startParam = values.length
+    ? `${route.deepLink}_${toBase64Url(JSON.stringify(values))}`
+    : route.deepLink;
+  if (startParam.length > START_PARAM_MAX_LENGTH) {
+    throw new Error(
+      `Start parameter of "${path}" is ${startParam.length} characters long, Telegram allows up to ${START_PARAM_MAX_LENGTH}`,
+    );
+  }
+  return startParam;
+}
+
+/**
+ * @returns Route encoded in the start parameter, or undefined if the start parameter is not a deep
+ * link created by createStartParam.
+ * @param startParam - value of the "startapp" query parameter.
+ */
+export function parseStartParam(startParam: string | undefined): DeepLink | undefined {
+  if (
+    !startParam
+    || startParam.length > START_PARAM_MAX_LENGTH
+    || !START_PARAM_PATTERN.test(startParam)
+  ) {
+    return;
+  }
+
+  const separator = startParam.indexOf('_');
+  const name = separator === -1 ? startParam : startParam.slice(0, separator);
+  const route = (routeMeta as readonly RouteMeta[]).find(r => r.deepLink === name);
+  if (!route) {
+    return;
+  }
+
+  const names = getPathParamNames(route.path);
+  let values: unknown = [];
+  if (separator !== -1) {
+    try {
+      values = JSON.parse(fromBase64Url(startParam.slice(separator + 1)));
+    } catch {
+      return;
+    }
+  }
+  if (
+    !Array.isArray(values)
+    || values.length !== names.length
+    || !values.every(v => typeof v === 'string')
+  ) {
+    return;
+  }
+
+  const params = Object.fromEntries(names.map((n, i) => [n, values[i]]));
+  return {
+    path: route.path as DeepLinkPath,
+    params,
+    location: route.path.replace(/:([^/]+)/g, (_, n: string) => encodeURIComponent(params[n])),
+  };
+}
+
+/**
+ * @returns Link sharing the route, which opens the Mini App on it. The Mini App link is taken from
+ * the deployment target, see deploy.config.ts.
+ * @param path - route path.
+ * @param params - route path parameters.
+ * @throws {Error} The deployment target has no Mini App link, or the start parameter can not be
+ * created.
+ */
+export function createShareLink<P extends DeepLinkPath>(path: P, ...params: PathParamsArgs<P>): string {
+  const miniAppUrl = import.meta.env.VITE_MINI_APP_URL;
+  if (!miniAppUrl) {
+    throw new Error(`Deploy target "${import.meta.env.VITE_DEPLOY_TARGET}" has no miniAppUrl`);
+  }
+  const url = new URL(miniAppUrl);
+  url.searchParams.set('startapp', createStartParam(path, ...params));
+  return url.toString();
+}
+
+/**
+ * Opens the route encoded in the start parameter. Does nothing if the application is already on a
+ * route, for example after a reload, so the deep link does not override the user navigation.
+ * @param startParam - value of the "startapp" query parameter.
+ */
+export function openStartParamRoute(startParam: string | undefined): void {
+  const link = parseStartParam(startParam);
+  if (link && !window.location.hash.startsWith('#/')) {
+    window.history.replaceState(window.history.state, '', `#${link.location}`);
+  }
+}
@@ -0,0 +1,134 @@
+import { Image } from '@telegram-apps/telegram-ui';
+import type { JSX } from 'react';
+
+import type { FeatureName } from '@/compatibility/features.ts';
+import tonSvg from '@/pages/TONConnectPage/ton.svg';
+
+/**
+ * Section of the index page menu.
+ */
+export interface RouteSection {
+  id: string;
+  header: string;
+  footer?: string;
+}
+
+/**
+ * Sections of the index page menu, in the display order.
+ */
+export const routeSections = [
+  {
+    id: 'features',
+    header: 'Features',
+    footer: 'You can use these pages to learn more about features, provided by Telegram Mini Apps and other useful projects',
+  },
+  {
+    id: 'launch-data',
+    header: 'Application Launch Data',
+    footer: 'These pages help developer to learn more about current launch information',
+  },
+] as const satisfies readonly RouteSection[];
+
+/**
+ * Route description without the page component. The pages import this module to list and link the
+ * routes, so it must not import the pages.
+ */
+export interface RouteMeta {
+  path: string;
+  /**
+   * Title of the route in the index page menu.
+   */
+  title?: string;
+  subtitle?: string;
+  icon?: JSX.Element;
+  /**
+   * Section of the index page menu listing the route. Routes without a section are not listed.
+   */
+  section?: (typeof routeSections)[number]['id'];
+  /**
+   * Position of the route in its section, lower goes first. Routes with the same order keep the
+   * order of the route table.
+   */
+  order?: number;
+  /**
+   * - "visible" - the route is listed in the menu, the default.
+   * - "hidden" - the route is not listed, but can be opened by a link.
+   * - "debug" - the route exists only in debug mode.
+   */
+  visibility?: 'visible' | 'hidden' | 'debug';
+  /**
+   * Features the page depends on. In the clients not supporting them, the page shows the list of
+   * the missing features, and the links to it are disabled.
+   */
+  requires?: readonly FeatureName[];
+  /**
+   * Name of the route in the start parameter of the deep links, see src/navigation/deepLinks.ts.
+   * Routes without it can not be opened by a deep link. Path parameters of the route, such as ":id",
+   * are passed along with the name.
+   */
+  deepLink?: string;
+}
+
+/**
+ * Descriptions of the routes. Page components are bound to the paths in src/navigation/routes.tsx.
+ */
+export const routeMeta = [
+  { path: '/' },
+  {
+    path: '/init-data',
+    title: 'Init Data',
+    subtitle: 'User data, chat information, technical data',
+    section: 'launch-data',
+    deepLink: 'init-data',
+  },
+  {
+    path: '/theme-params',
+    title: 'Theme Parameters',
+    subtitle: 'Telegram application palette information',
+    section: 'launch-data',
+    order: 2,
+    deepLink: 'theme-params',
+  },
+  {
+    path: '/launch-params',
+    title: 'Launch Parameters',
+    subtitle: 'Platform identifier, Mini Apps version, etc.',
+    section: 'launch-data',
+    order: 1,
+    deepLink: 'launch-params',
+  },
+  {
+    path: '/ton-connect',
+    title: 'TON Connect',
+    subtitle: 'Connect your TON wallet',
+    icon: <Image src={tonSvg} style={{ backgroundColor: '#007AFF' }}/>,
+    section: 'features',
+    deepLink: 'ton-connect',
+    // Wallets are opened with t.me links.
+    requires: ['telegramLinks'],
+  },
+] as const satisfies readonly RouteMeta[];
+
+/**
+ * Paths of the described routes.
+ */
+export type RoutePath = (typeof routeMeta)[number]['path'];
+
+/**
+ * @returns Descriptions of the routes existing in the current mode.
+ * @param debug - true in debug mode.
+ */
+export function getActiveRouteMeta(debug: boolean): readonly RouteMeta[] {
+  return (routeMeta as readonly RouteMeta[]).filter(r => debug || r.visibility !== 'debug');
+}
+
+/**
+ * @returns Routes listed in the section of the index page menu, in the display order.
+ * @param sectionId - section identifier.
+ * @param debug - true in debug mode.
+ */
+export function getSectionRoutes(sectionId: RouteSection['id'], debug: boolean): RouteMeta[] {
+  return getActiveRouteMeta(debug)
+    .filter(r => r.section === sectionId && r.visibility !== 'hidden')
+    .sort((a, b) => (a.order || 0) - (b.order || 0));
+}
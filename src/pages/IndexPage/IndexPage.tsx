@@ -1,42 +1,47 @@
-import { Section, Cell, Image, List } from '@telegram-apps/telegram-ui';
-import type { FC } from 'react';
+import { Section, Cell, List } from '@telegram-apps/telegram-ui';
+import { type FC, useMemo } from 'react';
 
 import { Link } from '@/components/Link/Link.tsx';
 import { Page } from '@/components/Page.tsx';
+import { isDebug } from '@/helpers/isDebug.ts';
+import { useMissingFeatures } from '@/hooks/useMissingFeatures.ts';
+import { getSectionRoutes, type RouteMeta, routeSections } from '@/navigation/routeMeta.tsx';
 
-import tonSvg from './ton.svg';
+const RouteCell: FC<{ route: RouteMeta }> = ({ route }) => {
+  const [missing] = useMissingFeatures(route.requires);
+  const cell = (
+    <Cell
+      before={route.icon}
+      subtitle={missing
+        ? `Requires Mini Apps ${missing.minVersion}, update Telegram`
+        : route.subtitle}
+    >
+      {route.title}
+    </Cell>
+  );
+
+  return missing
+    ? <div style={{ opacity: 0.5 }}>{cell}</div>
+    : <Link to={route.path}>{cell}</Link>;
+};
 
+/**
+ * Menu of the pages, generated from the route descriptions in src/navigation/routeMeta.tsx.
+ */
 export const IndexPage: FC = () => {
+  const debug = useMemo(() => isDebug(), []);
+
   return (
     <Page back={false}>
       <List>
-        <Section
-          header="Features"
-          footer="You can use these pages to learn more about features, provided by Telegram Mini Apps and other useful projects"
-        >
-          <Link to="/ton-connect">
-            <Cell
-              before={<Image src={tonSvg} style={{ backgroundColor: '#007AFF' }}/>}
-              subtitle="Connect your TON wallet"
-            >
-              TON Connect
-            </Cell>
-          </Link>
-        </Section>
-        <Section
-          header="Application Launch Data"
-          footer="These pages help developer to learn more about current launch information"
-        >
-          <Link to="/init-data">
-            <Cell subtitle="User data, chat information, technical data">Init Data</Cell>
-          </Link>
-          <Link to="/launch-params">
-            <Cell subtitle="Platform identifier, Mini Apps version, etc.">Launch Parameters</Cell>
-          </Link>
-          <Link to="/theme-params">
-            <Cell subtitle="Telegram application palette information">Theme Parameters</Cell>
-          </Link>
-        </Section>
+        {routeSections.map((section) => {
+          const sectionRoutes = getSectionRoutes(section.id, debug);
+          return sectionRoutes.length > 0 && (
+            <Section key={section.id} header={section.header} footer={section.footer}>
+              {sectionRoutes.map(route => <RouteCell key={route.path} route={route}/>)}
+            </Section>
+          );
+        })}
       </List>
     </Page>
   );
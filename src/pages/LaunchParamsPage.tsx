@@ -4,6 +4,7 @@ import { type FC, useMemo } from 'react';
 
 import { DisplayData } from '@/components/DisplayData/DisplayData.tsx';
 import { Page } from '@/components/Page.tsx';
+import { ShareSection } from '@/components/ShareSection.tsx';
 
 export const LaunchParamsPage: FC = () => {
   const lp = useMemo(() => retrieveLaunchParams(), []);
@@ -22,6 +23,8 @@ export const LaunchParamsPage: FC = () => {
             { title: 'tgWebAppThemeParams', type: 'link', value: '/theme-params' },
           ]}
         />
+        {/* Opening the shared link shows its start parameter above. */}
+        <ShareSection path="/launch-params" text="Launch parameters of the Mini App"/>
       </List>
     </Page>
   );
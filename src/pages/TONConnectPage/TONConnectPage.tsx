@@ -1,5 +1,5 @@
 import { openLink } from '@telegram-apps/sdk-react';
-import { TonConnectButton, useTonWallet } from '@tonconnect/ui-react';
+import { TonConnectButton, useTonConnectModal, useTonConnectUI, useTonWallet } from '@tonconnect/ui-react';
 import {
   Avatar,
   Cell,
@@ -10,11 +10,15 @@ import {
   Text,
   Title,
 } from '@telegram-apps/telegram-ui';
-import type { FC } from 'react';
+import { type FC, useCallback, useState } from 'react';
 
 import { DisplayData } from '@/components/DisplayData/DisplayData.tsx';
+import { MainButton } from '@/components/MainButton.tsx';
 import { Page } from '@/components/Page.tsx';
+import { SettingsButton } from '@/components/SettingsButton.tsx';
 import { bem } from '@/css/bem.ts';
+import { useClosingConfirmation } from '@/hooks/useClosingConfirmation.ts';
+import { useVerticalSwipes } from '@/hooks/useVerticalSwipes.ts';
 
 import './TONConnectPage.css';
 
@@ -22,10 +26,38 @@ const [, e] = bem('ton-connect-page');
 
 export const TONConnectPage: FC = () => {
   const wallet = useTonWallet();
+  const [tonConnectUI] = useTonConnectUI();
+  const { state } = useTonConnectModal();
+  const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const isModalOpened = state.status === 'opened';
+  const aboutUrl = wallet && 'aboutUrl' in wallet ? wallet.aboutUrl : undefined;
+
+  // Ask before closing the application in the middle of connecting the wallet.
+  useClosingConfirmation(isModalOpened);
+  // Keep the vertical gestures inside the wallet list of the modal.
+  useVerticalSwipes(!isModalOpened);
+
+  const connect = useCallback(() => {
+    tonConnectUI.openModal().catch(() => {});
+  }, [tonConnectUI]);
+
+  const disconnect = useCallback(() => {
+    setIsDisconnecting(true);
+    tonConnectUI.disconnect()
+      .catch(() => {})
+      .finally(() => setIsDisconnecting(false));
+  }, [tonConnectUI]);
+
+  const openAbout = useCallback(() => {
+    if (aboutUrl) {
+      openLink(aboutUrl);
+    }
+  }, [aboutUrl]);
 
   if (!wallet) {
     return (
       <Page>
+        <MainButton text="Connect Wallet" onClick={connect}/>
         <Placeholder
           className={e('placeholder')}
           header="TON Connect"
@@ -56,6 +88,9 @@ export const TONConnectPage: FC = () => {
 
   return (
     <Page>
+      <MainButton text="Disconnect" loading={isDisconnecting} onClick={disconnect}/>
+      {/* The settings item of the Telegram menu leads to the wallet site. */}
+      {aboutUrl && <SettingsButton onClick={openAbout}/>}
       <List>
         {'imageUrl' in wallet && (
           <>
@@ -0,0 +1,92 @@
+import { mockTelegramEnv, type MethodName, type MethodParams } from '@telegram-apps/sdk-react';
+
+import { compareVersions } from '@/helpers/compareVersions.ts';
+
+/**
+ * Handlers of the Mini Apps methods replacing or enhancing the ones of the client. A handler calls
+ * `next` to pass the call to the next shim and then to the client, or synthesizes the events the
+ * client fails to send with `emitEvent`.
+ */
+export type ShimHandlers = {
+  [M in MethodName]?: (params: MethodParams<M>, next: () => void) => void;
+};
+
+/**
+ * Workaround of a Telegram client bug.
+ */
+export interface PlatformShim {
+  /**
+   * Unique name, for example "macos-theme-request".
+   */
+  name: string;
+  /**
+   * Description of the bug the shim works around.
+   */
+  description: string;
+  /**
+   * Affected platforms, for example "macos".
+   */
+  platforms: string[];
+  /**
+   * Affected Mini Apps versions, inclusive. Without bounds, all versions are affected. Remove the
+   * shim when the affected versions age out.
+   */
+  versions?: { min?: string; max?: string };
+  /**
+   * Creates the method handlers. Called once when the shim is activated, so the handlers may keep
+   * state.
+   */
+  create: () => ShimHandlers;
+}
+
+/**
+ * @returns Shims affecting the client with the specified platform and version.
+ * @param shims - shims to choose from.
+ * @param platform - client platform.
+ * @param version - Mini Apps version supported by the client.
+ */
+export function findPlatformShims(shims: PlatformShim[], platform: string, version: string): PlatformShim[] {
+  return shims.filter(({ platforms, versions = {} }) => platforms.includes(platform)
+    && (!versions.min || compareVersions(version, versions.min) >= 0)
+    && (!versions.max || compareVersions(version, versions.max) <= 0));
+}
+
+/**
+ * Activates the shims affecting the current client. Every method call passes through the handlers
+ * of the active shims in their order before reaching the client.
+ * @returns Active shims.
+ * @param shims - registered shims.
+ * @param options - client platform and version, `debug` logs the active shims.
+ */
+export function applyPlatformShims(shims: PlatformShim[], options: {
+  platform: string;
+  version: string;
+  debug: boolean;
+}): PlatformShim[] {
+  const active = findPlatformShims(shims, options.platform, options.version);
+  if (options.debug) {
+    console.info(
+      `🩹 Platform shims for ${options.platform} ${options.version}: `
+      + (active.length ? active.map(s => `${s.name} (${s.description})`).join(', ') : 'none'),
+    );
+  }
+  if (!active.length) {
+    return active;
+  }
+
+  const handlers = active.map(shim => shim.create());
+  mockTelegramEnv({
+    onEvent([method, params], next) {
+      const call = (index: number): void => {
+        const handler = handlers.slice(index).find(h => Object.prototype.hasOwnProperty.call(h, method));
+        if (!handler) {
+          return next();
+        }
+        const handle = handler[method as MethodName] as (params: unknown, next: () => void) => void;
+        handle(params, () => call(handlers.indexOf(handler) + 1));
+      };
+      call(0);
+    },
+  });
+  return active;
+}
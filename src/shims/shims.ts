@@ -0,0 +1,47 @@
+import {
+  emitEvent,
+  retrieveLaunchParams,
+  type ThemeParams,
+  themeParamsState,
+} from '@telegram-apps/sdk-react';
+
+import type { PlatformShim, ShimHandlers } from '@/shims/registry.ts';
+
+/**
+ * Workarounds of the known Telegram client bugs. Add a shim here when a client misbehaves, and
+ * remove it when the affected versions age out.
+ */
+export const platformShims: PlatformShim[] = [
+  {
+    name: 'macos-theme-request',
+    description: 'Telegram for macOS does not always respond to web_app_request_theme',
+    platforms: ['macos'],
+    create(): ShimHandlers {
+      let firstThemeSent = false;
+      return {
+        web_app_request_theme(): void {
+          let tp: ThemeParams;
+          if (firstThemeSent) {
+            tp = themeParamsState();
+          } else {
+            firstThemeSent = true;
+            tp = retrieveLaunchParams().tgWebAppThemeParams;
+          }
+          emitEvent('theme_changed', { theme_params: tp });
+        },
+      };
+    },
+  },
+  {
+    name: 'macos-safe-area',
+    description: 'Telegram for macOS sends an incorrect safe_area_changed event',
+    platforms: ['macos'],
+    create(): ShimHandlers {
+      return {
+        web_app_request_safe_area(): void {
+          emitEvent('safe_area_changed', { left: 0, top: 0, right: 0, bottom: 0 });
+        },
+      };
+    },
+  },
+];
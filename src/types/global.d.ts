@@ -1,8 +1,28 @@
 export {};
 
 declare global {
+  /**
+   * Variables of the deployment target, see deploy.config.ts.
+   */
+  interface ImportMetaEnv {
+    readonly VITE_DEPLOY_TARGET: string;
+    readonly VITE_APP_NAME: string;
+    /**
+     * Public origin of the application, empty for the targets served by the dev server.
+     */
+    readonly VITE_PUBLIC_ORIGIN: string;
+    /**
+     * Direct link of the Mini App in Telegram, empty if the target does not define it.
+     */
+    readonly VITE_MINI_APP_URL: string;
+  }
+
   interface Window {
     __stackLoggerSilence__?: boolean;
+    /**
+     * Bridge session recorder, available in debug mode inside Telegram.
+     */
+    bridgeRecorder?: import('@/devtools/bridgeSession/recorder.ts').BridgeRecorder;
   }
 }
 
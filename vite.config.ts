@@ -1,4 +1,4 @@
-import { defineConfig, type PluginOption } from 'vite';
+import { defineConfig, loadEnv, type PluginOption } from 'vite';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import react from '@vitejs/plugin-react-swc';
 import viteBabel from 'vite-plugin-babel';
@@ -6,17 +6,40 @@ import functionFrames from '@ton-ai-core/devtrace/babel-plugin';
 import mkcert from 'vite-plugin-mkcert';
 import { componentTagger } from "lovable-tagger";
 import checker from 'vite-plugin-checker';
-// import Run from 'vite-plugin-run'; // no longer needed; we run the command ourselves for overlay
-import { spawn } from 'node:child_process';
+// import Run from 'vite-plugin-run'; // no longer needed; we run the linter ourselves for overlay
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import { createLintCommand } from './linter/overlay';
+import { commandOverlay, parseTscOutput } from './plugins/commandOverlay';
+import { deployTarget, resolveDeployTarget } from './plugins/deployTarget';
+import { mockInitData } from './plugins/mockInitData';
+import { tonconnectManifest } from './plugins/tonconnectManifest';
+import deployTargets from './deploy.config';
+
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => {
-  const plugins = [
+export default defineConfig(({ command, mode }) => {
+  // Variables of the environment and the .env files, including the ones without the VITE_ prefix,
+  // which are not exposed to the application.
+  const env = loadEnv(mode, __dirname, '');
+  // Selected by the DEPLOY_TARGET variable, see deploy.config.ts.
+  const target = resolveDeployTarget(deployTargets, { command, env });
+
+  const plugins: PluginOption[] = [
+    // Sets the base path and the application metadata of the deployment target.
+    deployTarget(target),
+    // Serves and builds tonconnect-manifest.json for the deployment target. The build fails if the
+    // manifest is invalid.
+    tonconnectManifest({
+      target,
+      manifest: {
+        iconUrl: 'tonconnect-icon.png',
+      },
+    }),
     // Allows using React dev server along with building a React application with Vite.
     // https://npmjs.com/package/@vitejs/plugin-react-swc
     react(),
@@ -29,46 +52,34 @@ export default defineConfig(({ mode }) => {
     process.env.HTTPS && mkcert(),
     // Add componentTagger only in development mode
     mode === 'development' && componentTagger(),
-    // Show overlay for arbitrary shell command failures (runs on start and on file changes)
-    mode === 'development' && ((): PluginOption => ({
-      name: 'command-overlay',
-      configureServer(server) {
-        const pattern = 'src/**/*';
-        const stripAnsi = (text: string): string =>
-          text.replace(/[\u001B\u009B][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g, '');
-        const runAndOverlay = () => {
-          const cmd = ['npm', 'run', 'lint'];
-          const child = spawn(cmd[0], cmd.slice(1), { stdio: ['ignore', 'pipe', 'pipe'] });
-          let output = '';
-          child.stdout.on('data', (d) => { output += d.toString(); process.stdout.write(d); });
-          child.stderr.on('data', (d) => { output += d.toString(); process.stderr.write(d); });
-          child.on('close', (code) => {
-            if (code && code !== 0) {
-              const clean = stripAnsi(output);
-              // Also print to terminal via Vite logger
-              server.config.logger.error(clean);
-              server.ws.send({
-                type: 'error',
-                err: {
-                  plugin: 'command-overlay',
-                  message: `Command failed: ${cmd.join(' ')} \nlog: ${clean}`,
-                  id: 'command-overlay',
-                  stack: '',
-                }
-              });
-            } else {
-              server.ws.send({ type: 'full-reload' });
-            }
-          });
-        };
-        // initial run
-        runAndOverlay();
-        // watch changes
-        server.watcher.add(pattern);
-        server.watcher.on('change', runAndOverlay);
-        server.watcher.on('unlink', runAndOverlay);
-      },
-    }))(),
+    // Signs the init data of the mocked environment with the local test bot token, so the backend
+    // validation passes. The token and the Ed25519 key never reach the application.
+    mode === 'development' && mockInitData({
+      botToken: env.MOCK_BOT_TOKEN,
+      privateKeyFile: env.MOCK_INIT_DATA_KEY_FILE,
+    }),
+    // Show the failures of the commands in the in-app overlay from src/devtools/commandOverlay.
+    // The linter runs in watch mode inside the dev server process and re-checks only the files
+    // affected by a change. Files outside src are type-checked by tsc. Changes of the files imported
+    // by this config restart the server, which runs the commands again.
+    mode === 'development' && commandOverlay({
+      reload: 'hmr',
+      commands: [
+        createLintCommand({ targets: ['src'], fix: true }),
+        {
+          name: 'typecheck:node',
+          command: 'npx tsc --noEmit --pretty false -p tsconfig.node.json',
+          files: [
+            'lint.ts',
+            'deploy.config.ts',
+            'linter/**/*.ts',
+            'plugins/**/*.ts',
+            'src/devtools/commandOverlay/protocol.d.ts',
+          ],
+          parse: parseTscOutput,
+        },
+      ],
+    }),
     // Inject Babel transform for function frames in development (after SWC processing)
     mode === 'development' && viteBabel({
       // Only transform our app sources, skip node_modules and devtools/trace files
@@ -93,10 +104,9 @@ export default defineConfig(({ mode }) => {
         ],
       },
     }),
-  ].filter(Boolean) as PluginOption[];
+  ].filter(Boolean);
 
   return {
-    base: '/reactjs-template/',
     css: {
       preprocessorOptions: {
         scss: {